@@ -1,8 +1,452 @@
-import { useEffect, useRef } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import './App.css'
 import { initCyberpunkGrid, cleanupCyberpunkGrid } from './three/init'
 import { useAtom } from 'jotai'
-import { gameStateAtom, distanceAtom, finalScoreAtom, highScoreAtom, restartGame, crystalCountAtom } from './three/store/gameStore'
+import { gameStateAtom, distanceAtom, finalScoreAtom, highScoreAtom, restartGame, pauseGame, resumeGame, togglePause, crystalCountAtom, activePowerUpsAtom, runSeedAtom, bestReplayAtom, lastReplayAtom, activeReplayAtom, watchReplay, ghostDeltaAtom, runHistoryAtom, RunRecord, comboAtom, nearMissesAtom, scoreBreakdownAtom, ScoreBreakdown, reviveOfferAtom, acceptRevive, declineRevive, walletAtom, ownedSkinsAtom, equippedSkinAtom, buySkin, equipSkin, missionProgressAtom, missionUpdatesAtom, difficultyAtom, setDifficulty, adaptiveAtom, setAdaptive, beatSyncAtom, setBeatSync, laneCountAtom } from './three/store/gameStore'
+import { PowerUpType } from './three/simulation/SimulationTypes'
+import { ReplayData, serializeReplay } from './three/simulation/Replay'
+import { BOARD_SKINS } from './three/objects/BoardSkins'
+import { MISSIONS, Mission } from './three/simulation/Missions'
+import { DIFFICULTY_IDS, DIFFICULTY_PRESETS } from './three/simulation/Difficulty'
+
+// HUD presentation for each power-up effect
+const POWER_UP_HUD: Record<PowerUpType, { icon: string; label: string; color: string }> = {
+  shield: { icon: '🛡️', label: 'SHIELD', color: '#3399ff' },
+  magnet: { icon: '🧲', label: 'MAGNET', color: '#ff3344' },
+  multiplier: { icon: '✖️', label: '2X SCORE', color: '#ffdd00' },
+  slowMotion: { icon: '⏳', label: 'SLOW-MO', color: '#aa66ff' },
+};
+
+// Rows of the score breakdown on the game over screen
+const SCORE_BREAKDOWN_ROWS: { key: keyof ScoreBreakdown; label: string }[] = [
+  { key: 'distance', label: 'Distance' },
+  { key: 'obstacles', label: 'Obstacles' },
+  { key: 'crystals', label: 'Crystals' },
+  { key: 'nearMisses', label: 'Near Misses' },
+  { key: 'combo', label: 'Combo Bonus' },
+  { key: 'multiplier', label: '2X Score' },
+];
+
+// Text-style button that opens the leaderboard
+const leaderboardLinkStyle = {
+  background: 'transparent',
+  border: 'none',
+  color: '#ffff00',
+  textShadow: '0 0 5px #ffff00',
+  marginTop: '1rem',
+  fontSize: '1rem',
+  cursor: 'pointer'
+};
+
+// Panels that can be opened from the start and game over screens
+type MenuPanel = 'leaderboard' | 'missions' | 'shop';
+
+// Small round button in the corner of the HUD that pauses the run
+const pauseButtonStyle = {
+  position: 'fixed' as const,
+  top: '1.5rem',
+  right: '1.5rem',
+  zIndex: 30,
+  width: '3rem',
+  height: '3rem',
+  background: 'rgba(0, 255, 255, 0.2)',
+  border: '2px solid #00ffff',
+  borderRadius: '50%',
+  color: '#00ffff',
+  fontSize: '1.2rem',
+  fontWeight: 'bold',
+  cursor: 'pointer',
+  boxShadow: '0 0 10px #00ffff'
+};
+
+// Download a replay as a JSON file
+const exportReplay = (replay: ReplayData) => {
+  const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `vibe-riders-replay-${replay.seed}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Ways the leaderboard can be sorted
+type LeaderboardSort = 'score' | 'distance' | 'crystals' | 'duration' | 'recent';
+
+const LEADERBOARD_SORTS: { key: LeaderboardSort; label: string; compare: (a: RunRecord, b: RunRecord) => number }[] = [
+  { key: 'score', label: 'SCORE', compare: (a, b) => b.score - a.score },
+  { key: 'distance', label: 'DISTANCE', compare: (a, b) => b.distance - a.distance },
+  { key: 'crystals', label: 'CRYSTALS', compare: (a, b) => b.crystals - a.crystals },
+  { key: 'duration', label: 'TIME', compare: (a, b) => b.duration - a.duration },
+  { key: 'recent', label: 'RECENT', compare: (a, b) => b.date.localeCompare(a.date) },
+];
+
+// Average final score of a list of runs
+const averageScore = (runs: RunRecord[]) =>
+  runs.length > 0 ? Math.round(runs.reduce((total, run) => total + run.score, 0) / runs.length) : 0;
+
+// Top 10 runs from the run history on one difficulty and the current track layout, with sorting
+function Leaderboard({ onClose }: { onClose: () => void }) {
+  const [allRuns] = useAtom(runHistoryAtom);
+  const [pickedDifficulty] = useAtom(difficultyAtom);
+  const [difficulty, setShownDifficulty] = useState(pickedDifficulty);
+  const [laneCount] = useAtom(laneCountAtom);
+  const [sort, setSort] = useState<LeaderboardSort>('score');
+  
+  // Each difficulty and lane count has its own leaderboard
+  const runHistory = allRuns.filter(run => run.difficulty === difficulty && run.laneCount === laneCount);
+  const compare = LEADERBOARD_SORTS.find(option => option.key === sort)!.compare;
+  const topRuns = [...runHistory].sort(compare).slice(0, 10);
+  
+  // Compare the last 10 runs with the 10 before them to show improvement over time
+  const recentAverage = averageScore(runHistory.slice(-10));
+  const previousAverage = averageScore(runHistory.slice(-20, -10));
+  const trend = runHistory.length > 10 ? recentAverage - previousAverage : null;
+  
+  const cellStyle = { padding: '0.25rem 0.5rem', textAlign: 'right' as const };
+  
+  return (
+    <div style={{
+      position: 'fixed',
+      zIndex: 30,
+      top: '50%',
+      left: '50%',
+      transform: 'translate(-50%, -50%)',
+      background: 'rgba(0, 0, 0, 0.85)',
+      padding: '1.5rem',
+      borderRadius: '10px',
+      boxShadow: '0 0 20px #00ffff',
+      border: '1px solid #00ffff',
+      color: '#00ffff',
+      fontFamily: 'monospace',
+      maxWidth: '95vw',
+      maxHeight: '90vh',
+      overflow: 'auto'
+    }}>
+      <div style={{ fontSize: '2rem', fontWeight: 'bold', textAlign: 'center', textShadow: '0 0 10px #00ffff' }}>
+        LEADERBOARD
+      </div>
+      
+      <div style={{ textAlign: 'center', color: '#888888', fontSize: '0.8rem', margin: '0.5rem 0 1rem' }}>
+        {laneCount} lanes · {runHistory.length} runs · last 10 avg {recentAverage}
+        {trend !== null && (
+          <span style={{ color: trend >= 0 ? '#00ff66' : '#ff3366' }}> ({trend >= 0 ? '+' : ''}{trend} vs previous 10)</span>
+        )}
+      </div>
+      
+      {/* Difficulty presets */}
+      <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'center', flexWrap: 'wrap', marginBottom: '0.5rem' }}>
+        {DIFFICULTY_IDS.map(id => (
+          <button
+            key={id}
+            onClick={() => setShownDifficulty(id)}
+            style={{
+              background: difficulty === id ? 'rgba(255, 0, 255, 0.3)' : 'transparent',
+              border: '1px solid #ff00ff',
+              color: '#ff00ff',
+              padding: '0.25rem 0.6rem',
+              fontSize: '0.8rem',
+              cursor: 'pointer',
+              borderRadius: '5px'
+            }}
+          >
+            {DIFFICULTY_PRESETS[id].name.toUpperCase()}
+          </button>
+        ))}
+      </div>
+      
+      {/* Sort options */}
+      <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'center', flexWrap: 'wrap', marginBottom: '1rem' }}>
+        {LEADERBOARD_SORTS.map(option => (
+          <button
+            key={option.key}
+            onClick={() => setSort(option.key)}
+            style={{
+              background: sort === option.key ? 'rgba(0, 255, 255, 0.3)' : 'transparent',
+              border: '1px solid #00ffff',
+              color: '#00ffff',
+              padding: '0.25rem 0.6rem',
+              fontSize: '0.8rem',
+              cursor: 'pointer',
+              borderRadius: '5px'
+            }}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      
+      {topRuns.length === 0 ? (
+        <div style={{ textAlign: 'center', color: '#ff00ff', margin: '1rem 0' }}>No runs yet - go ride!</div>
+      ) : (
+        <table style={{ borderCollapse: 'collapse', fontSize: '0.85rem', width: '100%' }}>
+          <thead>
+            <tr style={{ color: '#ff00ff', borderBottom: '1px solid #ff00ff' }}>
+              <th style={cellStyle}>#</th>
+              <th style={{ ...cellStyle, textAlign: 'left' }}>DATE</th>
+              <th style={cellStyle}>SCORE</th>
+              <th style={cellStyle}>DIST</th>
+              <th style={cellStyle}>💎</th>
+              <th style={cellStyle}>DODGED</th>
+              <th style={cellStyle}>TOP SPD</th>
+              <th style={cellStyle}>TIME</th>
+              <th style={{ ...cellStyle, textAlign: 'left' }}>CAUSE</th>
+            </tr>
+          </thead>
+          <tbody>
+            {topRuns.map((run, index) => (
+              <tr key={`${run.date}-${index}`}>
+                <td style={cellStyle}>{index + 1}</td>
+                <td style={{ ...cellStyle, textAlign: 'left' }}>
+                  {new Date(run.date).toLocaleDateString()}{run.adaptive && <span title="Adaptive difficulty"> 🤝</span>}
+                  {run.beatSync && <span title="Beat sync"> 🎵</span>}
+                </td>
+                <td style={{ ...cellStyle, color: '#ffff00' }}>{run.score}</td>
+                <td style={cellStyle}>{run.distance} m</td>
+                <td style={cellStyle}>{run.crystals}</td>
+                <td style={cellStyle}>{run.obstaclesPassed}</td>
+                <td style={cellStyle}>{run.maxSpeed.toFixed(1)}</td>
+                <td style={cellStyle}>{run.duration.toFixed(1)}s</td>
+                <td style={{ ...cellStyle, textAlign: 'left' }}>{run.causeOfDeath}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      
+      <div style={{ textAlign: 'center', marginTop: '1rem' }}>
+        <button
+          className="cyberpunk-button"
+          onClick={onClose}
+          style={{
+            background: 'rgba(0, 255, 255, 0.2)',
+            border: '2px solid #00ffff',
+            color: '#00ffff',
+            padding: '0.5rem 1.5rem',
+            fontSize: '1rem',
+            fontWeight: 'bold',
+            cursor: 'pointer',
+            borderRadius: '5px'
+          }}
+        >
+          CLOSE
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Progress towards a mission as text, e.g. "12 / 30"
+const formatMissionProgress = (mission: Mission, progress: number) =>
+  mission.stat === 'laneHold'
+    ? `${progress.toFixed(1)} / ${mission.target} s`
+    : `${Math.floor(progress)} / ${mission.target}`;
+
+// Mission with a bar filling up towards its target
+function MissionRow({ mission, progress }: { mission: Mission; progress: number }) {
+  const completed = progress >= mission.target;
+  const color = completed ? '#00ff66' : '#00ffff';
+  
+  return (
+    <div style={{ padding: '0.4rem 0', color }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', gap: '1rem' }}>
+        <span style={{ fontWeight: 'bold' }}>{completed ? '✓ ' : ''}{mission.title}</span>
+        <span style={{ color: '#ffff00' }}>+{mission.reward} 💎</span>
+      </div>
+      <div style={{ display: 'flex', justifyContent: 'space-between', gap: '1rem', fontSize: '0.8rem', color: '#888888' }}>
+        <span>{mission.description}</span>
+        <span>{formatMissionProgress(mission, Math.min(progress, mission.target))}</span>
+      </div>
+      <div style={{ height: '4px', marginTop: '0.25rem', background: 'rgba(0, 255, 255, 0.2)', borderRadius: '2px' }}>
+        <div style={{
+          width: `${Math.min(progress / mission.target, 1) * 100}%`,
+          height: '100%',
+          background: color,
+          borderRadius: '2px'
+        }} />
+      </div>
+    </div>
+  );
+}
+
+// Every mission and achievement with the saved progress
+function Missions({ onClose }: { onClose: () => void }) {
+  const [missionProgress] = useAtom(missionProgressAtom);
+  const completed = MISSIONS.filter(mission => (missionProgress[mission.id] ?? 0) >= mission.target).length;
+  
+  const sectionStyle = { color: '#ff00ff', textShadow: '0 0 5px #ff00ff', margin: '1rem 0 0.25rem', fontWeight: 'bold' };
+  
+  return (
+    <div style={{
+      position: 'fixed',
+      zIndex: 30,
+      top: '50%',
+      left: '50%',
+      transform: 'translate(-50%, -50%)',
+      background: 'rgba(0, 0, 0, 0.85)',
+      padding: '1.5rem',
+      borderRadius: '10px',
+      boxShadow: '0 0 20px #00ffff',
+      border: '1px solid #00ffff',
+      color: '#00ffff',
+      fontFamily: 'monospace',
+      width: '28rem',
+      maxWidth: '95vw',
+      maxHeight: '90vh',
+      overflow: 'auto'
+    }}>
+      <div style={{ fontSize: '2rem', fontWeight: 'bold', textAlign: 'center', textShadow: '0 0 10px #00ffff' }}>
+        MISSIONS
+      </div>
+      
+      <div style={{ textAlign: 'center', color: '#888888', fontSize: '0.8rem', marginTop: '0.5rem' }}>
+        {completed} / {MISSIONS.length} completed
+      </div>
+      
+      <div style={sectionStyle}>IN ONE RUN</div>
+      {MISSIONS.filter(mission => mission.scope === 'run').map(mission => (
+        <MissionRow key={mission.id} mission={mission} progress={missionProgress[mission.id] ?? 0} />
+      ))}
+      
+      <div style={sectionStyle}>ACHIEVEMENTS</div>
+      {MISSIONS.filter(mission => mission.scope === 'total').map(mission => (
+        <MissionRow key={mission.id} mission={mission} progress={missionProgress[mission.id] ?? 0} />
+      ))}
+      
+      <div style={{ textAlign: 'center', marginTop: '1rem' }}>
+        <button
+          className="cyberpunk-button"
+          onClick={onClose}
+          style={{
+            background: 'rgba(0, 255, 255, 0.2)',
+            border: '2px solid #00ffff',
+            color: '#00ffff',
+            padding: '0.5rem 1.5rem',
+            fontSize: '1rem',
+            fontWeight: 'bold',
+            cursor: 'pointer',
+            borderRadius: '5px'
+          }}
+        >
+          CLOSE
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Hex color number as a CSS color
+const cssColor = (color: number) => `#${color.toString(16).padStart(6, '0')}`;
+
+// Shop where banked crystals unlock board skins
+function Shop({ onClose }: { onClose: () => void }) {
+  const [wallet] = useAtom(walletAtom);
+  const [ownedSkins] = useAtom(ownedSkinsAtom);
+  const [equippedSkin] = useAtom(equippedSkinAtom);
+  
+  const skinButtonStyle = {
+    background: 'transparent',
+    border: '1px solid #00ffff',
+    color: '#00ffff',
+    padding: '0.25rem 0.75rem',
+    fontSize: '0.8rem',
+    fontWeight: 'bold',
+    cursor: 'pointer',
+    borderRadius: '5px',
+    minWidth: '7rem'
+  };
+  
+  return (
+    <div style={{
+      position: 'fixed',
+      zIndex: 30,
+      top: '50%',
+      left: '50%',
+      transform: 'translate(-50%, -50%)',
+      background: 'rgba(0, 0, 0, 0.85)',
+      padding: '1.5rem',
+      borderRadius: '10px',
+      boxShadow: '0 0 20px #00ffff',
+      border: '1px solid #00ffff',
+      color: '#00ffff',
+      fontFamily: 'monospace',
+      maxWidth: '95vw',
+      maxHeight: '90vh',
+      overflow: 'auto'
+    }}>
+      <div style={{ fontSize: '2rem', fontWeight: 'bold', textAlign: 'center', textShadow: '0 0 10px #00ffff' }}>
+        SKIN SHOP
+      </div>
+      
+      <div style={{ textAlign: 'center', color: '#ffff00', textShadow: '0 0 5px #ffff00', margin: '0.5rem 0 1rem' }}>
+        💎 {wallet} crystals
+      </div>
+      
+      {BOARD_SKINS.map(skin => {
+        const owned = ownedSkins.includes(skin.id);
+        const equipped = equippedSkin === skin.id;
+        const affordable = wallet >= skin.price;
+        
+        return (
+          <div key={skin.id} style={{ display: 'flex', alignItems: 'center', gap: '1rem', padding: '0.4rem 0' }}>
+            {/* Swatch of the skin's two colors and its glow */}
+            <div style={{
+              width: '3rem',
+              height: '1rem',
+              borderRadius: '0.5rem',
+              background: `linear-gradient(90deg, ${cssColor(skin.colorA)}, ${cssColor(skin.colorB)})`,
+              boxShadow: `0 0 8px ${cssColor(skin.glowColor)}`
+            }} />
+            <div style={{ flex: 1, minWidth: '6rem' }}>{skin.name}</div>
+            
+            {equipped ? (
+              <button disabled style={{ ...skinButtonStyle, borderColor: '#00ff66', color: '#00ff66', cursor: 'default' }}>
+                EQUIPPED
+              </button>
+            ) : owned ? (
+              <button onClick={() => equipSkin(skin.id)} style={skinButtonStyle}>
+                EQUIP
+              </button>
+            ) : (
+              <button
+                onClick={() => buySkin(skin.id)}
+                disabled={!affordable}
+                style={{
+                  ...skinButtonStyle,
+                  borderColor: '#ff00ff',
+                  color: '#ff00ff',
+                  opacity: affordable ? 1 : 0.4,
+                  cursor: affordable ? 'pointer' : 'default'
+                }}
+              >
+                BUY · {skin.price} 💎
+              </button>
+            )}
+          </div>
+        );
+      })}
+      
+      <div style={{ textAlign: 'center', marginTop: '1rem' }}>
+        <button
+          className="cyberpunk-button"
+          onClick={onClose}
+          style={{
+            background: 'rgba(0, 255, 255, 0.2)',
+            border: '2px solid #00ffff',
+            color: '#00ffff',
+            padding: '0.5rem 1.5rem',
+            fontSize: '1rem',
+            fontWeight: 'bold',
+            cursor: 'pointer',
+            borderRadius: '5px'
+          }}
+        >
+          CLOSE
+        </button>
+      </div>
+    </div>
+  );
+}
 
 function App() {
   const containerRef = useRef<HTMLDivElement>(null);
@@ -11,15 +455,67 @@ function App() {
   const [finalScore] = useAtom(finalScoreAtom);
   const [highScore] = useAtom(highScoreAtom);
   const [crystalCount] = useAtom(crystalCountAtom);
-
+  const [activePowerUps] = useAtom(activePowerUpsAtom);
+  const [runSeed] = useAtom(runSeedAtom);
+  const [difficulty] = useAtom(difficultyAtom);
+  const [adaptive] = useAtom(adaptiveAtom);
+  const [beatSync] = useAtom(beatSyncAtom);
+  const [bestReplay] = useAtom(bestReplayAtom);
+  const [lastReplay] = useAtom(lastReplayAtom);
+  const [activeReplay] = useAtom(activeReplayAtom);
+  const [ghostDelta] = useAtom(ghostDeltaAtom);
+  const [combo] = useAtom(comboAtom);
+  const [nearMisses] = useAtom(nearMissesAtom);
+  const [scoreBreakdown] = useAtom(scoreBreakdownAtom);
+  const [reviveOffer] = useAtom(reviveOfferAtom);
+  const [wallet] = useAtom(walletAtom);
+  const [missionProgress] = useAtom(missionProgressAtom);
+  const [missionUpdates] = useAtom(missionUpdatesAtom);
+  const [menuPanel, setMenuPanel] = useState<MenuPanel | null>(null);
+  
   const handleStartGame = () => {
+    setMenuPanel(null);
     setGameState('playing');
   };
   
   const handleRestartGame = () => {
+    setMenuPanel(null);
     restartGame();
   };
-
+  
+  const handleWatchBestRun = () => {
+    if (bestReplay) {
+      setMenuPanel(null);
+      watchReplay(bestReplay);
+    }
+  };
+  
+  // Missions not completed yet, in the order they are listed
+  const nextMissions = MISSIONS.filter(mission => (missionProgress[mission.id] ?? 0) < mission.target).slice(0, 3);
+  
+  // Links opening the menu panels, on the start and game over screens
+  const menuLinks = (
+    <div style={{ display: 'flex', gap: '1.5rem', flexWrap: 'wrap', justifyContent: 'center' }}>
+      <button onClick={() => setMenuPanel('leaderboard')} style={leaderboardLinkStyle}>
+        🏆 LEADERBOARD
+      </button>
+      <button onClick={() => setMenuPanel('missions')} style={leaderboardLinkStyle}>
+        🎯 MISSIONS
+      </button>
+      <button onClick={() => setMenuPanel('shop')} style={leaderboardLinkStyle}>
+        🛒 SHOP · 💎 {wallet}
+      </button>
+    </div>
+  );
+  
+  // Export the run that just ended (the replay itself when watching one)
+  const replayToExport = activeReplay ?? lastReplay;
+  const handleExportReplay = () => {
+    if (replayToExport) {
+      exportReplay(replayToExport);
+    }
+  };
+  
   useEffect(() => {
     // Initialize the Three.js background once the component is mounted
     // We use a short timeout to ensure the DOM is fully rendered
@@ -28,7 +524,7 @@ function App() {
         initCyberpunkGrid(containerRef.current.id);
       }
     }, 100);
-
+    
     // Add zalgo glitch effect to document title
     const originalTitle = "VIBE RIDERS";
     let glitchInterval: number;
@@ -179,7 +675,7 @@ function App() {
     };
     
     startGlitchEffect();
-
+    
     // Clean up Three.js resources when component unmounts
     return () => {
       clearTimeout(timer);
@@ -188,7 +684,34 @@ function App() {
       cleanupCyberpunkGrid();
     };
   }, []);
-
+  
+  useEffect(() => {
+    // Escape or P toggles pause
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat) return;
+      if (e.code === 'Escape' || e.code === 'KeyP') {
+        togglePause();
+      }
+    };
+    
+    // Pause automatically when the tab is hidden or the window loses focus
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        pauseGame();
+      }
+    };
+    
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('blur', pauseGame);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('blur', pauseGame);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, []);
+  
   return (
     <div 
       id="app-container"
@@ -234,9 +757,25 @@ function App() {
           </div>
         </div>
       )}
-
-      {/* Distance counter - only shown during gameplay */}
+      
+      {/* Pause button - only shown during gameplay */}
       {gameState === 'playing' && (
+        <button
+          onClick={(e) => {
+            // Keep the click from reaching the scene's tap controls
+            e.stopPropagation();
+            pauseGame();
+          }}
+          onTouchStart={(e) => e.stopPropagation()}
+          style={pauseButtonStyle}
+          aria-label="Pause"
+        >
+          ❚❚
+        </button>
+      )}
+      
+      {/* Distance counter - shown during gameplay, while paused and while a revive is on offer */}
+      {(gameState === 'playing' || gameState === 'paused' || gameState === 'reviving') && (
         <div className="distance-counter" style={{
           position: 'fixed',
           top: '2rem',
@@ -252,7 +791,28 @@ function App() {
           width: '100%',
           textAlign: 'center'
         }}>
+          {activeReplay && (
+            <div style={{
+              color: '#ffff00',
+              textShadow: '0 0 8px #ffff00',
+              fontSize: '1rem',
+              marginBottom: '0.5rem'
+            }}>
+              ▶ REPLAY
+            </div>
+          )}
           <div>{distance.toString().padStart(6, '0')} m</div>
+          
+          {/* Distance ahead of (or behind) the best run's ghost */}
+          {ghostDelta !== null && (
+            <div style={{
+              color: ghostDelta >= 0 ? '#00ff66' : '#ff3366',
+              textShadow: `0 0 8px ${ghostDelta >= 0 ? '#00ff66' : '#ff3366'}`,
+              fontSize: '1rem'
+            }}>
+              👻 {ghostDelta >= 0 ? '+' : ''}{ghostDelta} m
+            </div>
+          )}
           <div style={{ 
             color: '#00ffaa', 
             textShadow: '0 0 8px #00ffaa',
@@ -261,6 +821,197 @@ function App() {
           }}>
             💎 {crystalCount}
           </div>
+          
+          {/* Combo multiplier with the time left before it drops a level */}
+          {combo.level > 0 && (
+            <div style={{
+              color: '#ff00ff',
+              textShadow: '0 0 8px #ff00ff',
+              fontSize: '1.2rem',
+              marginTop: '0.5rem',
+              display: 'flex',
+              flexDirection: 'column',
+              alignItems: 'center'
+            }}>
+              <div>COMBO {combo.level} · x{combo.multiplier.toFixed(2)}</div>
+              <div style={{ width: '8rem', height: '4px', background: 'rgba(255, 0, 255, 0.2)', marginTop: '0.25rem' }}>
+                <div style={{ width: `${combo.timeLeft * 100}%`, height: '100%', background: '#ff00ff', boxShadow: '0 0 6px #ff00ff' }} />
+              </div>
+            </div>
+          )}
+          
+          {/* Pops up for a moment after each near miss (keyed so the animation restarts) */}
+          {nearMisses > 0 && gameState === 'playing' && (
+            <div key={nearMisses} className="near-miss-popup" style={{
+              position: 'fixed',
+              top: '35%',
+              width: '100%',
+              color: '#ffff00',
+              textShadow: '0 0 10px #ffff00',
+              fontSize: '1.5rem'
+            }}>
+              NEAR MISS!
+            </div>
+          )}
+          
+          {/* Active power-up effects with remaining time */}
+          <div style={{
+            display: 'flex',
+            gap: '0.75rem',
+            marginTop: '0.5rem',
+            fontSize: '1rem'
+          }}>
+            {(Object.keys(activePowerUps) as PowerUpType[]).map((type) => (
+              <div key={type} style={{
+                color: POWER_UP_HUD[type].color,
+                textShadow: `0 0 8px ${POWER_UP_HUD[type].color}`,
+                border: `1px solid ${POWER_UP_HUD[type].color}`,
+                borderRadius: '5px',
+                padding: '0.2rem 0.5rem'
+              }}>
+                {POWER_UP_HUD[type].icon} {POWER_UP_HUD[type].label} {activePowerUps[type]?.toFixed(1)}s
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+      
+      {/* Pause Screen */}
+      {gameState === 'paused' && (
+        <div 
+          className="pause-menu"
+          style={{
+            position: 'fixed',
+            zIndex: 20,
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'center',
+            justifyContent: 'center',
+            top: '50%',
+            left: '50%',
+            transform: 'translate(-50%, -50%)',
+            background: 'rgba(0, 0, 0, 0.7)',
+            padding: '2rem',
+            borderRadius: '10px',
+            boxShadow: '0 0 20px #00ffff',
+            border: '1px solid #00ffff'
+          }}
+        >
+          <div className="glowing-text" style={{ 
+            fontSize: '3rem', 
+            fontWeight: 'bold',
+            textAlign: 'center',
+            marginBottom: '1.5rem'
+          }}>
+            PAUSED
+          </div>
+          
+          <button 
+            className="cyberpunk-button"
+            onClick={(e) => {
+              // Keep the click from reaching the scene's tap controls once the run resumes
+              e.stopPropagation();
+              resumeGame();
+            }}
+            style={{
+              background: 'rgba(0, 255, 255, 0.2)',
+              border: '2px solid #00ffff',
+              color: '#00ffff',
+              padding: '0.8rem 2rem',
+              fontSize: '1.2rem',
+              fontWeight: 'bold',
+              cursor: 'pointer',
+              borderRadius: '5px',
+              boxShadow: '0 0 10px #00ffff'
+            }}
+          >
+            RESUME
+          </button>
+          
+          <button 
+            onClick={handleRestartGame}
+            style={{ ...leaderboardLinkStyle, color: '#ff00ff', textShadow: '0 0 5px #ff00ff' }}
+          >
+            QUIT
+          </button>
+          
+          <div style={{ marginTop: '1rem', color: '#888888', fontSize: '0.8rem', textAlign: 'center' }}>
+            Press Esc or P to resume
+          </div>
+        </div>
+      )}
+      
+      {/* Revive offer - counts down after a crash while the run holds still */}
+      {gameState === 'reviving' && reviveOffer && (
+        <div 
+          className="revive-menu"
+          style={{
+            position: 'fixed',
+            zIndex: 20,
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'center',
+            justifyContent: 'center',
+            top: '50%',
+            left: '50%',
+            transform: 'translate(-50%, -50%)',
+            background: 'rgba(0, 0, 0, 0.7)',
+            padding: '2rem',
+            borderRadius: '10px',
+            boxShadow: '0 0 20px #ffff00',
+            border: '1px solid #ffff00'
+          }}
+        >
+          <div style={{ 
+            fontSize: '2rem', 
+            fontWeight: 'bold',
+            color: '#ffff00',
+            textShadow: '0 0 15px #ffff00',
+            textAlign: 'center'
+          }}>
+            {activeReplay ? 'REVIVING' : 'CONTINUE?'}
+          </div>
+          
+          <div style={{ fontSize: '4rem', fontWeight: 'bold', color: '#ffffff', fontFamily: 'monospace', margin: '0.5rem 0' }}>
+            {reviveOffer.timeLeft}
+          </div>
+          
+          {!activeReplay && (
+            <>
+              <button 
+                className="cyberpunk-button"
+                onClick={(e) => {
+                  // Keep the click from reaching the scene's tap controls once the run resumes
+                  e.stopPropagation();
+                  acceptRevive();
+                }}
+                onTouchStart={(e) => e.stopPropagation()}
+                style={{
+                  background: 'rgba(0, 255, 170, 0.2)',
+                  border: '2px solid #00ffaa',
+                  color: '#00ffaa',
+                  padding: '0.8rem 2rem',
+                  fontSize: '1.2rem',
+                  fontWeight: 'bold',
+                  cursor: 'pointer',
+                  borderRadius: '5px',
+                  boxShadow: '0 0 10px #00ffaa'
+                }}
+              >
+                REVIVE · {reviveOffer.cost} 💎
+              </button>
+              
+              <button 
+                onClick={(e) => {
+                  e.stopPropagation();
+                  declineRevive();
+                }}
+                style={{ ...leaderboardLinkStyle, color: '#ff00ff', textShadow: '0 0 5px #ff00ff' }}
+              >
+                GIVE UP
+              </button>
+            </>
+          )}
         </div>
       )}
       
@@ -293,7 +1044,7 @@ function App() {
             textShadow: '0 0 15px #ff00ff',
             marginBottom: '1rem'
           }}>
-            GAME OVER
+            {activeReplay ? 'REPLAY OVER' : 'GAME OVER'}
           </div>
           
           <div style={{ marginBottom: '0.5rem', color: '#00ffff', fontSize: '1.5rem', textAlign: 'center' }}>
@@ -304,10 +1055,46 @@ function App() {
             Crystals: <span style={{ fontWeight: 'bold' }}>{crystalCount} 💎</span>
           </div>
           
+          {/* Where the points came from */}
+          <table style={{ marginBottom: '0.5rem', color: '#cccccc', fontSize: '0.9rem', borderSpacing: '1rem 0.1rem' }}>
+            <tbody>
+              {SCORE_BREAKDOWN_ROWS.filter(row => scoreBreakdown[row.key] > 0).map(row => (
+                <tr key={row.key}>
+                  <td>{row.label}</td>
+                  <td style={{ textAlign: 'right' }}>+{scoreBreakdown[row.key]}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          
           <div style={{ marginBottom: '1.5rem', color: '#00ffff', fontSize: '1.5rem', textAlign: 'center' }}>
             Final Score: <span style={{ fontWeight: 'bold' }}>{finalScore}</span>
           </div>
           
+          <div style={{ marginTop: '-1rem', marginBottom: '1.5rem', color: '#888888', fontSize: '0.8rem', textAlign: 'center' }}>
+            {DIFFICULTY_PRESETS[replayToExport?.config.difficulty ?? difficulty].name}
+            {(replayToExport?.config.adaptiveDifficulty ?? adaptive) && ' · Adaptive'}
+            {(replayToExport?.config.beatSync ?? beatSync) && ' · Beat Sync'} · Seed: {runSeed}
+          </div>
+          
+          {/* Missions the run moved forward */}
+          {missionUpdates.length > 0 && (
+            <div style={{ marginBottom: '1.5rem', width: '100%', maxWidth: '22rem', fontSize: '0.85rem' }}>
+              {missionUpdates.map(update => {
+                const mission = MISSIONS.find(candidate => candidate.id === update.id)!;
+                return (
+                  <div
+                    key={update.id}
+                    style={{ display: 'flex', justifyContent: 'space-between', gap: '1rem', color: update.completed ? '#00ff66' : '#00ffff' }}
+                  >
+                    <span>{update.completed ? '✓ ' : '🎯 '}{mission.title}</span>
+                    <span>{update.completed ? `COMPLETE +${mission.reward} 💎` : formatMissionProgress(mission, update.progress)}</span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          
           <button 
             className="cyberpunk-button"
             onClick={handleRestartGame}
@@ -334,9 +1121,66 @@ function App() {
           >
             PLAY AGAIN
           </button>
+          
+          {/* Replay controls */}
+          <div style={{ display: 'flex', gap: '0.75rem', marginTop: '1rem' }}>
+            {bestReplay && (
+              <button 
+                className="cyberpunk-button"
+                onClick={handleWatchBestRun}
+                style={{
+                  background: 'rgba(255, 255, 0, 0.1)',
+                  border: '1px solid #ffff00',
+                  color: '#ffff00',
+                  padding: '0.5rem 1rem',
+                  fontSize: '0.9rem',
+                  cursor: 'pointer',
+                  borderRadius: '5px',
+                  boxShadow: '0 0 6px #ffff00',
+                  transition: 'all 0.2s ease'
+                }}
+                onMouseOver={(e) => {
+                  e.currentTarget.style.background = 'rgba(255, 255, 0, 0.2)';
+                }}
+                onMouseOut={(e) => {
+                  e.currentTarget.style.background = 'rgba(255, 255, 0, 0.1)';
+                }}
+              >
+                ▶ WATCH BEST RUN ({bestReplay.score})
+              </button>
+            )}
+            
+            {replayToExport && (
+              <button 
+                className="cyberpunk-button"
+                onClick={handleExportReplay}
+                style={{
+                  background: 'rgba(0, 255, 255, 0.1)',
+                  border: '1px solid #00ffff',
+                  color: '#00ffff',
+                  padding: '0.5rem 1rem',
+                  fontSize: '0.9rem',
+                  cursor: 'pointer',
+                  borderRadius: '5px',
+                  boxShadow: '0 0 6px #00ffff',
+                  transition: 'all 0.2s ease'
+                }}
+                onMouseOver={(e) => {
+                  e.currentTarget.style.background = 'rgba(0, 255, 255, 0.2)';
+                }}
+                onMouseOut={(e) => {
+                  e.currentTarget.style.background = 'rgba(0, 255, 255, 0.1)';
+                }}
+              >
+                ⬇ EXPORT REPLAY
+              </button>
+            )}
+          </div>
+          
+          {menuLinks}
         </div>
       )}
-
+      
       {/* Start Game Button - shown only in idle state */}
       {gameState === 'idle' && (
         <div style={{ 
@@ -355,9 +1199,55 @@ function App() {
             textAlign: 'center'
           }}>
             Use ← → arrows or A/D keys to change lanes<br/>
-            Or tap/click left/right side of the screen
+            Or tap/click left/right side of the screen<br/>
+            Press ↑ / W or swipe up to jump, ↓ / S or swipe down to duck<br/>
+            Press Esc or P to pause
           </div>
           
+          {/* Difficulty presets - each keeps its own high score, leaderboard and ghost */}
+          <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '0.5rem' }}>
+            {DIFFICULTY_IDS.map(id => (
+              <button
+                key={id}
+                onClick={() => setDifficulty(id)}
+                style={{
+                  background: difficulty === id ? 'rgba(0, 255, 255, 0.3)' : 'transparent',
+                  border: '1px solid #00ffff',
+                  color: '#00ffff',
+                  padding: '0.3rem 0.8rem',
+                  fontSize: '0.9rem',
+                  fontWeight: difficulty === id ? 'bold' : 'normal',
+                  cursor: 'pointer',
+                  borderRadius: '5px',
+                  boxShadow: difficulty === id ? '0 0 8px #00ffff' : 'none'
+                }}
+              >
+                {DIFFICULTY_PRESETS[id].name.toUpperCase()}
+              </button>
+            ))}
+          </div>
+          <div style={{ color: '#888888', fontSize: '0.8rem', marginBottom: '0.5rem' }}>
+            {DIFFICULTY_PRESETS[difficulty].description}
+          </div>
+          
+          {/* Adaptive difficulty eases the run while the player is struggling */}
+          <button
+            onClick={() => setAdaptive(!adaptive)}
+            title="Slows the speed ramp and spaces obstacles out while you're struggling, and backs off as you improve"
+            style={{ ...leaderboardLinkStyle, marginTop: 0, marginBottom: '0.5rem', fontSize: '0.9rem', color: adaptive ? '#00ff66' : '#888888', textShadow: adaptive ? '0 0 5px #00ff66' : 'none' }}
+          >
+            🤝 ADAPTIVE: {adaptive ? 'ON' : 'OFF'}
+          </button>
+          
+          {/* Beat sync turns the run into a rhythm runner */}
+          <button
+            onClick={() => setBeatSync(!beatSync)}
+            title="Obstacles and crystals reach you on the beat of the music, and laser gates blink in time with it"
+            style={{ ...leaderboardLinkStyle, marginTop: 0, marginBottom: '1rem', fontSize: '0.9rem', color: beatSync ? '#ff00ff' : '#888888', textShadow: beatSync ? '0 0 5px #ff00ff' : 'none' }}
+          >
+            🎵 BEAT SYNC: {beatSync ? 'ON' : 'OFF'}
+          </button>
+          
           <button 
             className="start-button"
             onClick={handleStartGame}
@@ -396,9 +1286,32 @@ function App() {
               High Score: {highScore}
             </div>
           )}
+          
+          {/* The next few missions to go for */}
+          {nextMissions.length > 0 && (
+            <div style={{ marginTop: '1rem', color: '#00ffff', fontSize: '0.85rem', textAlign: 'center' }}>
+              {nextMissions.map(mission => (
+                <div key={mission.id}>
+                  🎯 {mission.description} <span style={{ color: '#888888' }}>({formatMissionProgress(mission, missionProgress[mission.id] ?? 0)})</span>
+                </div>
+              ))}
+            </div>
+          )}
+          
+          {menuLinks}
         </div>
       )}
       
+      {/* Leaderboard / run history, missions and board skin shop overlays */}
+      {(gameState === 'idle' || gameState === 'gameOver') && menuPanel === 'leaderboard' && (
+        <Leaderboard onClose={() => setMenuPanel(null)} />
+      )}
+      {(gameState === 'idle' || gameState === 'gameOver') && menuPanel === 'missions' && (
+        <Missions onClose={() => setMenuPanel(null)} />
+      )}
+      {(gameState === 'idle' || gameState === 'gameOver') && menuPanel === 'shop' && (
+        <Shop onClose={() => setMenuPanel(null)} />
+      )}
     </div>
   )
 }
@@ -0,0 +1,345 @@
+import { ANALYSIS_LENGTH, BeatGrid, detectBeatGrid } from '../utils/BeatDetection';
+
+// Sound effects, decoded up front so they play without delay
+export type SoundName = 'crystal' | 'explosion';
+
+interface SoundDefinition {
+  url: string;
+  volume: number;
+  maxVoices: number; // Most copies of the sound playing at once - the oldest is cut off to make room
+}
+
+const SOUNDS: Record<SoundName, SoundDefinition> = {
+  crystal: { url: '/crystal.mp3', volume: 0.5, maxVoices: 4 },
+  explosion: { url: '/explode.mp3', volume: 0.6, maxVoices: 1 },
+};
+
+// Background music, streamed through a media element on purpose: decoding a three-minute track
+// would hold about 70 MB of samples in memory, and `syncMusic` corrects the element's drift
+const MUSIC_URL = '/vibing.mp3';
+const MUSIC_VOLUME = 0.25;
+
+// Room left for tags at the start of the music file, on top of the audio its beat is detected in
+const MUSIC_TAG_BYTES = 64 * 1024;
+
+// How far the music may drift from where a beat-synced run expects it before it is moved back (seconds)
+const MAX_MUSIC_DRIFT = 0.08;
+
+// Frequency bands the music is measured in for the visuals (Hz)
+const BASS_BAND = { min: 20, max: 150 };
+const MIDS_BAND = { min: 400, max: 2000 };
+
+// Events that count as a user gesture for unlocking audio
+const UNLOCK_EVENTS = ['pointerdown', 'touchend', 'keydown'];
+
+/**
+ * Options for a single sound effect
+ */
+export interface PlayOptions {
+  pitch?: number;  // Semitones up (or down) from the recorded pitch
+  volume?: number; // Multiplier on the sound's own volume
+}
+
+/**
+ * How loud the music currently is in each frequency band (0-1)
+ */
+export interface MusicLevels {
+  bass: number;
+  mids: number;
+}
+
+/**
+ * Plays the game's music and sound effects through the Web Audio API
+ *
+ * Music and sound effects go through separate gain buses into a master gain. The context
+ * starts suspended until the first user gesture, as browsers require. An analyser on the
+ * music (before its volume, so turning it down doesn't dim the visuals) measures its spectrum.
+ */
+export class AudioManager {
+  private context: AudioContext | null = null;
+  private masterGain: GainNode | null = null;
+  private musicGain: GainNode | null = null;
+  private sfxGain: GainNode | null = null;
+  private buffers = new Map<SoundName, AudioBuffer>();
+  private voices = new Map<SoundName, AudioBufferSourceNode[]>();
+  private music: HTMLAudioElement | null = null;
+  private analyser: AnalyserNode | null = null;
+  private spectrum = new Uint8Array(0);
+  private beatGrid: BeatGrid | null = null;
+  private beatGridRequested = false;
+  private soundsLoaded: Promise<void> = Promise.resolve();
+  
+  constructor() {
+    try {
+      this.context = new AudioContext();
+    } catch (e) {
+      console.warn('Web Audio is not available:', e);
+      return;
+    }
+    
+    const context = this.context;
+    this.masterGain = context.createGain();
+    this.masterGain.connect(context.destination);
+    
+    this.musicGain = context.createGain();
+    this.musicGain.gain.value = MUSIC_VOLUME;
+    this.musicGain.connect(this.masterGain);
+    
+    this.sfxGain = context.createGain();
+    this.sfxGain.connect(this.masterGain);
+    
+    // Measure the music's spectrum on its way into the music bus
+    this.analyser = context.createAnalyser();
+    this.analyser.fftSize = 1024;
+    this.analyser.smoothingTimeConstant = 0.6; // Low enough for the kick drum to still stand out
+    this.analyser.connect(this.musicGain);
+    this.spectrum = new Uint8Array(this.analyser.frequencyBinCount);
+    
+    // Stream the music through the analyser and music bus
+    this.music = new Audio(MUSIC_URL);
+    this.music.loop = true;
+    context.createMediaElementSource(this.music).connect(this.analyser);
+    
+    for (const event of UNLOCK_EVENTS) {
+      window.addEventListener(event, this.unlock, true);
+    }
+    
+    this.soundsLoaded = this.loadSounds();
+  }
+  
+  /**
+   * Fetch and decode every sound effect
+   */
+  private async loadSounds(): Promise<void> {
+    await Promise.all((Object.keys(SOUNDS) as SoundName[]).map(async name => {
+      try {
+        const response = await fetch(SOUNDS[name].url);
+        const data = await response.arrayBuffer();
+        if (!this.context) return;
+        this.buffers.set(name, await this.context.decodeAudioData(data));
+      } catch (e) {
+        console.warn(`Could not load ${name} sound:`, e);
+      }
+    }));
+  }
+  
+  /**
+   * Start detecting the music's tempo and beats, unless that has already been started
+   * Waits for the sound effects, so the much bigger music download doesn't hold them up
+   */
+  public loadBeatGrid(): void {
+    if (this.beatGridRequested || !this.context) return;
+    this.beatGridRequested = true;
+    this.soundsLoaded.then(() => this.detectMusicBeat());
+  }
+  
+  /**
+   * Decode the start of the music once to find its tempo and beats
+   * Only the analysed stretch is requested, sized from the file's average bitrate and cut off before
+   * decoding in case the server sends the whole file. If that decodes to less than the stretch
+   * (a variable bitrate or big tags), the whole file is analysed instead
+   */
+  private async detectMusicBeat(): Promise<void> {
+    try {
+      const length = await this.getMusicLength();
+      const size = await this.getMusicSize();
+      const analysisBytes = size !== null
+        ? Math.min(size, MUSIC_TAG_BYTES + Math.ceil(size * ANALYSIS_LENGTH / length))
+        : null;
+      
+      let buffer = await this.decodeMusic(analysisBytes);
+      if (analysisBytes !== size && buffer.duration < Math.min(ANALYSIS_LENGTH, length)) {
+        buffer = await this.decodeMusic(null);
+      }
+      this.beatGrid = detectBeatGrid(buffer.getChannelData(0), buffer.sampleRate, length);
+    } catch (e) {
+      console.warn('Could not detect the music beat:', e);
+    }
+  }
+  
+  /**
+   * Fetch and decode the music file, or just the start of it
+   * @param bytes How many bytes to decode from the start (null for the whole file)
+   */
+  private async decodeMusic(bytes: number | null): Promise<AudioBuffer> {
+    const headers: HeadersInit = bytes !== null ? { Range: `bytes=0-${bytes - 1}` } : {};
+    const response = await fetch(MUSIC_URL, { headers });
+    const data = await response.arrayBuffer();
+    if (!this.context) throw new Error('Audio has been disposed');
+    return this.context.decodeAudioData(bytes !== null ? data.slice(0, bytes) : data);
+  }
+  
+  /**
+   * Ask the server how big the music file is
+   * @returns The size of the file (bytes), or null if the server doesn't say
+   */
+  private async getMusicSize(): Promise<number | null> {
+    const response = await fetch(MUSIC_URL, { method: 'HEAD' });
+    const size = Number(response.headers.get('Content-Length'));
+    return response.ok && size > 0 ? size : null;
+  }
+  
+  /**
+   * Wait for the music element to know how long the track is
+   * @returns The length of the track (seconds)
+   */
+  private getMusicLength(): Promise<number> {
+    const music = this.music;
+    if (!music || music.error) return Promise.reject(music?.error ?? new Error('No music'));
+    if (isFinite(music.duration)) return Promise.resolve(music.duration);
+    
+    return new Promise((resolve, reject) => {
+      music.addEventListener('loadedmetadata', () => resolve(music.duration), { once: true });
+      music.addEventListener('error', () => reject(music.error), { once: true });
+    });
+  }
+  
+  /**
+   * Resume the audio context on the first user gesture
+   */
+  private unlock = (): void => {
+    const context = this.context;
+    if (!context) return;
+    
+    context.resume().then(() => {
+      if (context.state !== 'running') return;
+      for (const event of UNLOCK_EVENTS) {
+        window.removeEventListener(event, this.unlock, true);
+      }
+    }).catch(err => console.warn('Could not unlock audio:', err));
+  };
+  
+  /**
+   * Play a sound effect (silently skipped until it has loaded)
+   */
+  public playSound(name: SoundName, options: PlayOptions = {}): void {
+    const context = this.context;
+    const buffer = this.buffers.get(name);
+    if (!context || !this.sfxGain || !buffer || context.state !== 'running') return;
+    
+    // Make room by cutting off the oldest copy of the sound
+    const definition = SOUNDS[name];
+    const voices = this.voices.get(name) ?? [];
+    while (voices.length >= definition.maxVoices) {
+      voices.shift()!.stop();
+    }
+    
+    const gain = context.createGain();
+    gain.gain.value = definition.volume * (options.volume ?? 1);
+    gain.connect(this.sfxGain);
+    
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = Math.pow(2, (options.pitch ?? 0) / 12);
+    source.connect(gain);
+    source.onended = () => {
+      const index = voices.indexOf(source);
+      if (index !== -1) voices.splice(index, 1);
+      gain.disconnect();
+    };
+    source.start();
+    
+    voices.push(source);
+    this.voices.set(name, voices);
+  }
+  
+  /**
+   * Start (or resume) the music
+   * @param fromStart Whether to start the track over from the top
+   */
+  public playMusic(fromStart: boolean = false): void {
+    if (!this.music) return;
+    
+    if (fromStart) {
+      this.music.currentTime = 0;
+    }
+    this.context?.resume().catch(err => console.warn('Could not resume audio:', err));
+    this.music.play().catch(err => console.warn('Could not play audio:', err));
+  }
+  
+  /**
+   * Keep the music in step with a beat-synced run, moving it if it has drifted
+   * @param time Where in the track the run expects the music to be (seconds)
+   */
+  public syncMusic(time: number): void {
+    const music = this.music;
+    if (!music || music.paused || !isFinite(music.duration)) return;
+    
+    // Drift is measured around the loop point too
+    const drift = Math.abs(music.currentTime - time) % music.duration;
+    if (Math.min(drift, music.duration - drift) > MAX_MUSIC_DRIFT) {
+      music.currentTime = time % music.duration;
+    }
+  }
+  
+  /**
+   * Get the tempo and beats of the music (null until they have been detected, or if they couldn't be)
+   */
+  public getBeatGrid(): BeatGrid | null {
+    return this.beatGrid;
+  }
+  
+  /**
+   * Pause the music where it is
+   */
+  public pauseMusic(): void {
+    this.music?.pause();
+  }
+  
+  /**
+   * Measure how loud the music is right now in the bass and mid frequencies
+   * Both levels are 0 while the music is paused or audio is still locked
+   */
+  public getMusicLevels(): MusicLevels {
+    if (!this.context || !this.analyser || !this.music || this.music.paused || this.context.state !== 'running') {
+      return { bass: 0, mids: 0 };
+    }
+    
+    this.analyser.getByteFrequencyData(this.spectrum);
+    return {
+      bass: this.getBandLevel(BASS_BAND.min, BASS_BAND.max),
+      mids: this.getBandLevel(MIDS_BAND.min, MIDS_BAND.max),
+    };
+  }
+  
+  /**
+   * Get the average level of the latest spectrum between two frequencies (0-1)
+   */
+  private getBandLevel(minFrequency: number, maxFrequency: number): number {
+    const binWidth = this.context!.sampleRate / this.analyser!.fftSize;
+    const first = Math.max(Math.floor(minFrequency / binWidth), 0);
+    const last = Math.min(Math.ceil(maxFrequency / binWidth), this.spectrum.length - 1);
+    
+    let total = 0;
+    for (let i = first; i <= last; i++) {
+      total += this.spectrum[i];
+    }
+    return total / ((last - first + 1) * 255);
+  }
+  
+  /**
+   * Stop everything and release the audio context
+   */
+  public dispose(): void {
+    for (const event of UNLOCK_EVENTS) {
+      window.removeEventListener(event, this.unlock, true);
+    }
+    
+    for (const voices of this.voices.values()) {
+      for (const source of voices) {
+        source.stop();
+      }
+    }
+    this.voices.clear();
+    
+    if (this.music) {
+      this.music.pause();
+      this.music.src = '';
+      this.music = null;
+    }
+    
+    this.analyser = null;
+    this.context?.close().catch(err => console.warn('Could not close audio context:', err));
+    this.context = null;
+  }
+}
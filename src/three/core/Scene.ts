@@ -6,7 +6,6 @@ import * as THREE from 'three';
 export abstract class Scene {
   protected scene: THREE.Scene;
   protected camera: THREE.PerspectiveCamera;
-  protected clock: THREE.Clock;
 
   constructor() {
     this.scene = new THREE.Scene();
@@ -16,7 +15,6 @@ export abstract class Scene {
       0.1,
       1000
     );
-    this.clock = new THREE.Clock();
   }
 
   /**
@@ -25,9 +23,17 @@ export abstract class Scene {
   public abstract initialize(): void;
 
   /**
-   * Update the scene (called every frame)
+   * Advance the game simulation by one fixed step
+   * @param step Fixed step duration in seconds
    */
-  public abstract update(): void;
+  public abstract fixedUpdate(step: number): void;
+
+  /**
+   * Update the scene visuals (called every rendered frame)
+   * @param deltaTime Time since last frame
+   * @param alpha How far we are between the previous and the next simulation step (0-1)
+   */
+  public abstract update(deltaTime: number, alpha: number): void;
 
   /**
    * Handle window resize events
@@ -1,5 +1,6 @@
 import * as THREE from 'three';
 import { CyberpunkScene } from '../scenes/CyberpunkScene';
+import { FIXED_STEP } from '../simulation/SimulationConfig';
 
 /**
  * SceneManager acts as the main controller for the ThreeJS application.
@@ -10,6 +11,12 @@ export class SceneManager {
   private currentScene: CyberpunkScene | null = null;
   private container: HTMLElement | null = null;
   private animationId: number | null = null;
+  
+  // Fixed-timestep simulation
+  private clock: THREE.Clock = new THREE.Clock();
+  private accumulator: number = 0;
+  private fixedStep: number = FIXED_STEP;
+  private maxFrameTime: number = 0.25; // Clamp long stalls (e.g. background tabs) to avoid a huge catch-up
 
   constructor() {
     // Initialize the renderer
@@ -45,6 +52,8 @@ export class SceneManager {
     window.addEventListener('resize', this.handleResize.bind(this));
 
     // Start the animation loop
+    this.clock.start();
+    this.accumulator = 0;
     this.animate();
   }
 
@@ -61,13 +70,23 @@ export class SceneManager {
 
   /**
    * Animation loop
+   * The simulation advances in fixed steps, rendering interpolates between the last two steps
    */
   private animate(): void {
     this.animationId = requestAnimationFrame(this.animate.bind(this));
 
     if (this.currentScene) {
-      // Update scene
-      this.currentScene.update();
+      const frameTime = Math.min(this.clock.getDelta(), this.maxFrameTime);
+      this.accumulator += frameTime;
+      
+      // Run as many simulation steps as the elapsed time allows
+      while (this.accumulator >= this.fixedStep) {
+        this.currentScene.fixedUpdate(this.fixedStep);
+        this.accumulator -= this.fixedStep;
+      }
+      
+      // Update visuals, interpolated by how far we are into the next step
+      this.currentScene.update(frameTime, this.accumulator / this.fixedStep);
       
       // Render scene
       this.renderer.render(
@@ -0,0 +1,94 @@
+/**
+ * Look of a hoverboard skin that can be unlocked in the shop
+ */
+export interface BoardSkin {
+  id: string;
+  name: string;
+  price: number;        // Crystals it costs to unlock (0 = owned from the start)
+  colorA: number;       // Main holographic color (also used for the glowing edges)
+  colorB: number;       // Color the surface shifts towards
+  fresnelBias: number;  // Fresnel reflection of the environment
+  fresnelScale: number;
+  fresnelPower: number;
+  glowColor: number;    // Hover glow and light underneath the board
+}
+
+// Skin every player starts with
+export const DEFAULT_SKIN_ID = 'neon';
+
+// Every skin in the shop, cheapest first
+export const BOARD_SKINS: BoardSkin[] = [
+  {
+    id: 'neon',
+    name: 'Neon',
+    price: 0,
+    colorA: 0x00ffff,
+    colorB: 0xff00ff,
+    fresnelBias: 0.1,
+    fresnelScale: 1.0,
+    fresnelPower: 2.0,
+    glowColor: 0x00ffff,
+  },
+  {
+    id: 'sunset',
+    name: 'Sunset',
+    price: 50,
+    colorA: 0xff8833,
+    colorB: 0xff0066,
+    fresnelBias: 0.1,
+    fresnelScale: 1.0,
+    fresnelPower: 2.0,
+    glowColor: 0xff6600,
+  },
+  {
+    id: 'toxic',
+    name: 'Toxic',
+    price: 100,
+    colorA: 0x66ff00,
+    colorB: 0x00ff99,
+    fresnelBias: 0.2,
+    fresnelScale: 1.2,
+    fresnelPower: 1.5,
+    glowColor: 0x66ff00,
+  },
+  {
+    id: 'chrome',
+    name: 'Chrome',
+    price: 200,
+    colorA: 0xdddddd,
+    colorB: 0x6688ff,
+    fresnelBias: 0.4,
+    fresnelScale: 1.5,
+    fresnelPower: 1.2,
+    glowColor: 0xaaccff,
+  },
+  {
+    id: 'gold',
+    name: 'Gold Rush',
+    price: 400,
+    colorA: 0xffdd00,
+    colorB: 0xff9900,
+    fresnelBias: 0.3,
+    fresnelScale: 1.3,
+    fresnelPower: 1.5,
+    glowColor: 0xffcc00,
+  },
+  {
+    id: 'void',
+    name: 'Void',
+    price: 750,
+    colorA: 0x9900ff,
+    colorB: 0x110022,
+    fresnelBias: 0.05,
+    fresnelScale: 0.8,
+    fresnelPower: 3.0,
+    glowColor: 0x9900ff,
+  },
+];
+
+/**
+ * Get a skin by id, falling back to the default skin for unknown ids
+ */
+export function getBoardSkin(id: string): BoardSkin {
+  return BOARD_SKINS.find(skin => skin.id === id) ?? BOARD_SKINS[0];
+}
@@ -1,4 +1,9 @@
 import * as THREE from 'three';
+import { CrystalEntity } from '../simulation/SimulationTypes';
+import { TrackCurve } from '../utils/TrackCurve';
+
+// Height the crystal floats above the grid
+const CRYSTAL_Y = 1.2;
 
 /**
  * Represents a collectible crystal that increases the player's crystal count
@@ -6,30 +11,25 @@ import * as THREE from 'three';
 export class Crystal {
   private mesh: THREE.Group;
   private position: { x: number; z: number };
+  private previousZ: number; // Z position at the previous simulation step
   private lane: number;
   private isActive: boolean = true;
-  private boundingBox: THREE.Box3;
   private rotationSpeed: number = 1;
   
-  // Lane system (should match HoverBoard)
-  private lanes = [-2.5, 0, 2.5]; // Left, Center, Right
-  
-  constructor(lane: number = 1, startZ: number = -100) {
+  constructor(lane: number = 1, x: number = 0, startZ: number = -100) {
     this.mesh = new THREE.Group();
     this.lane = lane;
     this.position = { 
-      x: this.lanes[lane],
+      x,
       z: startZ
     };
+    this.previousZ = startZ;
     
     // Create the crystal
     this.createCrystal();
     
     // Set initial position - floating above the grid
-    this.mesh.position.set(this.position.x, 1.2, this.position.z);
-    
-    // Create bounding box for collision detection
-    this.boundingBox = new THREE.Box3().setFromObject(this.mesh);
+    this.mesh.position.set(this.position.x, CRYSTAL_Y, this.position.z);
   }
   
   /**
@@ -81,27 +81,34 @@ export class Crystal {
   }
   
   /**
-   * Update the crystal
+   * Copy the crystal position from the latest simulation step
+   */
+  public sync(entity: CrystalEntity): void {
+    this.position.x = entity.x; // Moves sideways while pulled by a magnet
+    this.position.z = entity.z;
+    this.previousZ = entity.previousZ;
+  }
+  
+  /**
+   * Update the crystal animation (called every rendered frame)
+   * @param deltaTime Time since last frame
+   * @param alpha Interpolation factor (0 = previous step, 1 = current step)
+   * @param curve Curve to bend the straight track onto
    */
-  public update(deltaTime: number, speed: number): void {
+  public update(deltaTime: number, alpha: number, curve?: TrackCurve): void {
     if (!this.isActive) return;
     
-    // Move the crystal 
-    this.mesh.position.z += speed * deltaTime;
+    // Place the mesh between the previous and current simulation step, without turning it off its spin
+    const z = this.previousZ + (this.position.z - this.previousZ) * alpha;
+    if (curve) {
+      curve.place(this.mesh, this.position.x, CRYSTAL_Y, z, false);
+    } else {
+      this.mesh.position.set(this.position.x, CRYSTAL_Y, z);
+    }
     
     // Rotate the crystal
     this.mesh.rotation.y += this.rotationSpeed * deltaTime;
     this.mesh.rotation.x += this.rotationSpeed * 0.5 * deltaTime;
-    
-    // Update bounding box
-    this.boundingBox.setFromObject(this.mesh);
-  }
-  
-  /**
-   * Check if crystal is past the player
-   */
-  public isPastPlayer(): boolean {
-    return this.mesh.position.z > 10;
   }
   
   /**
@@ -111,13 +118,6 @@ export class Crystal {
     return this.lane;
   }
   
-  /**
-   * Get the bounding box for collision detection
-   */
-  public getBoundingBox(): THREE.Box3 {
-    return this.boundingBox;
-  }
-  
   /**
    * Check if the crystal is active
    */
@@ -136,11 +136,12 @@ export class Crystal {
   /**
    * Reset the crystal for reuse
    */
-  public reset(lane: number, startZ: number): void {
+  public reset(lane: number, x: number, startZ: number): void {
     this.lane = lane;
-    this.position.x = this.lanes[lane];
+    this.position.x = x;
     this.position.z = startZ;
-    this.mesh.position.set(this.position.x, 1.2, this.position.z);
+    this.previousZ = startZ;
+    this.mesh.position.set(this.position.x, CRYSTAL_Y, this.position.z);
     this.setActive(true);
   }
   
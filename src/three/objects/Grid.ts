@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import { TrackCurve } from '../utils/TrackCurve';
 
 /**
  * Represents the grid floor in the cyberpunk scene
@@ -10,12 +11,19 @@ export class Grid {
   private textureOffsetX: number = 0;
   private textureOffsetY: number = 0;
   
-  constructor(size: number = 100) {
+  /**
+   * @param size Width and depth of the grid
+   * @param curve Curve to bend the floor along (the floor stays flat without one)
+   */
+  constructor(size: number = 100, curve?: TrackCurve) {
     // Create a group to hold all grid elements
     this.gridGroup = new THREE.Group();
     
     // Create an opaque floor plane with texture
     this.createFloorPlane(size);
+    if (curve) {
+      curve.bendShader(this.floorMaterial);
+    }
     
     // Add the floor plane to the group
     this.gridGroup.add(this.floorPlane);
@@ -27,13 +35,13 @@ export class Grid {
     // This ensures the grid extends into the distance rather than to the sides
     this.gridGroup.rotation.y = Math.PI / 4;
   }
-
+  
   /**
    * Create an opaque floor plane with scrollable texture
    */
   private createFloorPlane(size: number): void {
-    // Create geometry for the floor
-    const geometry = new THREE.PlaneGeometry(size, size, 32, 32);
+    // Create geometry for the floor - finely divided so it bends smoothly along the track
+    const geometry = new THREE.PlaneGeometry(size, size, 128, 128);
     geometry.rotateX(-Math.PI / 2); // Rotate to be horizontal
     
     // Create a grid texture procedurally
@@ -150,6 +158,15 @@ export class Grid {
     }
   }
   
+  /**
+   * Brighten the grid lines with the music
+   * The floor is nearly black, so scaling the texture's color mostly lights up the lines
+   * @param bass Bass level of the music (0-1)
+   */
+  public setBass(bass: number): void {
+    this.floorMaterial.color.setScalar(1 + bass * 0.8);
+  }
+  
   /**
    * Reset the texture offset
    */
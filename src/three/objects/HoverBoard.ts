@@ -1,6 +1,9 @@
 import * as THREE from 'three';
 import { RoundedBoxGeometry } from '../utils/RoundedBoxGeometry';
 import { HoverboardShader } from '../shaders/HoverboardShader';
+import { BoardState } from '../simulation/SimulationTypes';
+import { TrackCurve } from '../utils/TrackCurve';
+import { BoardSkin } from './BoardSkins';
 
 /**
  * Represents the hovering board
@@ -8,28 +11,22 @@ import { HoverboardShader } from '../shaders/HoverboardShader';
 export class HoverBoard {
   private mesh: THREE.Group;
   private glowEffect: THREE.PointLight;
-  private clock: THREE.Clock;
+  private elapsedTime: number = 0; // Animation time - only advances while the board is updated, so it freezes on pause
   private boardMesh!: THREE.Mesh;
   private boardMaterial!: THREE.ShaderMaterial;
-  private hoverHeight: number = 0.8; // Base hover height
+  private hoverGlowMaterial!: THREE.MeshBasicMaterial;
+  // Board state from the latest simulation step - the board is only rendered here
+  private state: Readonly<BoardState> | null = null;
+  private boardZ = 5; // Fixed z position relative to the camera
+  private offsetZ = 0; // Extra z offset (used to place a ghost ahead of or behind the player)
+  private glowScale = 1; // Multiplier for the hover glow light
+  private mids = 0; // Mid-range level of the music (0-1), pushing the glow up
   
-  // Movement properties
-  private position = { x: 0, z: 5 };
-  private targetPosition = { x: 0, z: 5 };
-  private speed = 0; // Forward speed
-  private lateralSpeed = 12; // Side-to-side movement speed - increased for responsiveness
-  private laneWidth = 2.5; // Width of a lane
-  private isMoving = false;
+  // Shield bubble shown while the shield power-up is active
+  private shieldBubble!: THREE.Mesh;
   
-  // Lane system
-  private lanes = [-this.laneWidth, 0, this.laneWidth]; // Left, Center, Right
-  private currentLane = 1; // Start in center lane (index 1)
-  private moveCooldown = 0; // Cooldown to prevent rapid lane changes
-  private moveCooldownDuration = 0.2; // Duration in seconds
-
   constructor() {
     this.mesh = new THREE.Group();
-    this.clock = new THREE.Clock();
     
     // Create the hoverboard
     this.createHoverboard();
@@ -39,7 +36,7 @@ export class HoverBoard {
     this.glowEffect.position.set(0, -0.1, 0);
     this.mesh.add(this.glowEffect);
   }
-
+  
   /**
    * Create the hoverboard geometry and materials
    */
@@ -57,107 +54,115 @@ export class HoverBoard {
     
     // Add hover glow effect beneath the board
     const hoverGlowGeometry = new THREE.PlaneGeometry(0.7, 2.2);
-    const hoverGlowMaterial = new THREE.MeshBasicMaterial({
+    this.hoverGlowMaterial = new THREE.MeshBasicMaterial({
       color: 0x00ffff,
       transparent: true,
       opacity: 0.3,
       side: THREE.DoubleSide,
       blending: THREE.AdditiveBlending
     });
-    const hoverGlow = new THREE.Mesh(hoverGlowGeometry, hoverGlowMaterial);
+    const hoverGlow = new THREE.Mesh(hoverGlowGeometry, this.hoverGlowMaterial);
     hoverGlow.position.set(0, -0.15, 0);
     hoverGlow.rotation.x = Math.PI / 2;
     this.mesh.add(hoverGlow);
+    
+    // Add shield bubble (hidden until the shield power-up is collected)
+    const shieldGeometry = new THREE.SphereGeometry(1.4, 24, 16);
+    shieldGeometry.scale(0.8, 0.6, 1.1); // Stretch along the board
+    const shieldMaterial = new THREE.MeshBasicMaterial({
+      color: 0x3399ff,
+      transparent: true,
+      opacity: 0.2,
+      depthWrite: false,
+      blending: THREE.AdditiveBlending
+    });
+    this.shieldBubble = new THREE.Mesh(shieldGeometry, shieldMaterial);
+    this.shieldBubble.visible = false;
+    this.mesh.add(this.shieldBubble);
   }
-
+  
   /**
    * Set environment map for reflection
    */
   public setEnvironmentMap(envMap: THREE.CubeTexture): void {
     HoverboardShader.setEnvironmentMap(this.boardMaterial, envMap);
   }
-
+  
   /**
-   * Get the mesh
+   * Change the look of the board
+   * @param skin Skin with the board colors, fresnel settings and glow color
    */
-  public getMesh(): THREE.Group {
-    return this.mesh;
+  public setSkin(skin: BoardSkin): void {
+    HoverboardShader.setSkin(this.boardMaterial, skin);
+    this.hoverGlowMaterial.color.setHex(skin.glowColor);
+    this.glowEffect.color.setHex(skin.glowColor);
   }
 
   /**
-   * Start the hoverboard movement
+   * Get the mesh
    */
-  public startMoving(): void {
-    this.isMoving = true;
-    this.speed = 16; // Initial speed - increased for faster gameplay
-    this.currentLane = 1; // Reset to center lane
-    this.targetPosition.x = this.lanes[this.currentLane];
-    this.position.x = this.lanes[this.currentLane]; // Set position immediately to prevent sliding at start
-    this.position.z = 5; // Reset z position
-    this.moveCooldown = 0; // Reset cooldown
+  public getMesh(): THREE.Group {
+    return this.mesh;
   }
-
+  
   /**
-   * Stop the hoverboard movement
+   * Take the board state from the latest simulation step
+   * @param state Board state produced by the game simulation
    */
-  public stopMoving(): void {
-    this.isMoving = false;
-    this.speed = 0;
+  public setState(state: Readonly<BoardState>): void {
+    this.state = state;
   }
-
+  
   /**
-   * Move the hoverboard to the left
-   * In Temple Run style, this should never wrap around
+   * Show or hide the shield bubble
    */
-  public moveLeft(): void {
-    if (!this.isMoving || this.currentLane === 0 || this.moveCooldown > 0) return;
-    
-    this.currentLane--;
-    this.targetPosition.x = this.lanes[this.currentLane];
-    this.moveCooldown = this.moveCooldownDuration; // Set cooldown to prevent rapid lane changes
+  public setShieldVisible(visible: boolean): void {
+    this.shieldBubble.visible = visible;
   }
-
+  
   /**
-   * Move the hoverboard to the right
-   * In Temple Run style, this should never wrap around
+   * Render the board as a translucent ghost
+   * @param opacity Opacity of the board
    */
-  public moveRight(): void {
-    if (!this.isMoving || this.currentLane === 2 || this.moveCooldown > 0) return;
+  public setGhost(opacity: number): void {
+    HoverboardShader.setOpacity(this.boardMaterial, opacity);
+    this.glowScale = opacity;
     
-    this.currentLane++;
-    this.targetPosition.x = this.lanes[this.currentLane];
-    this.moveCooldown = this.moveCooldownDuration; // Set cooldown to prevent rapid lane changes
+    // Fade the hover glow and never show a shield on a ghost
+    this.mesh.traverse((object) => {
+      if (object instanceof THREE.Mesh && object.material instanceof THREE.MeshBasicMaterial) {
+        object.material.opacity *= opacity;
+      }
+    });
+    this.shieldBubble.visible = false;
   }
-
+  
   /**
-   * Get the current distance traveled
+   * Drive the glow with the music
+   * @param mids Mid-range level of the music (0-1)
    */
-  public getDistance(): number {
-    // Distance now directly tied to the current speed for faster increase
-    if (!this.isMoving) return 0;
-    return Math.abs(this.position.z - 5);
+  public setMids(mids: number): void {
+    this.mids = mids;
   }
-
+  
   /**
-   * Set the current speed of the hoverboard
-   * @param speed The new speed
+   * Move the board ahead of (negative) or behind (positive) its usual spot
+   * @param offset Offset along the track
    */
-  public setSpeed(speed: number): void {
-    this.speed = speed;
+  public setOffsetZ(offset: number): void {
+    this.offsetZ = offset;
   }
-
+  
   /**
-   * Update the hoverboard animation
+   * Update the hoverboard animation (called every rendered frame)
    * @param deltaTime Time since last frame
+   * @param alpha How far we are between the previous and the current simulation step (0-1)
+   * @param curve Curve to bend the straight track onto
    */
-  public update(deltaTime: number): void {
-    // Update move cooldown
-    if (this.moveCooldown > 0) {
-      this.moveCooldown -= deltaTime;
-    }
-    
+  public update(deltaTime: number, alpha: number = 1, curve?: TrackCurve): void {
     // Update time uniform for shader animations
-    const elapsedTime = this.clock.getElapsedTime();
+    this.elapsedTime += deltaTime;
+    const elapsedTime = this.elapsedTime;
     const tilt = Math.sin(elapsedTime * 1.2) * 0.01;
     
     // Update shader
@@ -167,54 +172,62 @@ export class HoverBoard {
       tilt
     );
     
-    // Animate the glow intensity
-    const intensity = 1.2 + Math.sin(elapsedTime * 2) * 0.3;
-    this.glowEffect.intensity = intensity;
-
-    // Handle forward movement
-    if (this.isMoving) {
-      // Movement is now controlled by setSpeed from CyberpunkScene
-      // Move forward (decrease z value) - Distance increases with speed
-      this.position.z -= this.speed * deltaTime;
-    }
-
-    // Handle lateral movement (smooth transition to target position)
-    const lateralDiff = this.targetPosition.x - this.position.x;
-    if (Math.abs(lateralDiff) > 0.01) {
-      this.position.x += Math.sign(lateralDiff) * Math.min(this.lateralSpeed * deltaTime, Math.abs(lateralDiff));
+    // Animate the glow intensity, brightening with the music
+    const intensity = 1.2 + Math.sin(elapsedTime * 2) * 0.3 + this.mids * 2;
+    this.glowEffect.intensity = intensity * this.glowScale;
+    
+    // Place the mesh between the last two simulation steps
+    this.applyPose(alpha, curve);
+  }
+  
+  /**
+   * Move the mesh to the simulated pose, interpolated between the previous and current step
+   * @param alpha Interpolation factor (1 = current step)
+   * @param curve Curve to bend the straight track onto
+   */
+  private applyPose(alpha: number, curve?: TrackCurve): void {
+    const state = this.state;
+    if (!state) return;
+    
+    const x = state.previousX + (state.x - state.previousX) * alpha;
+    const currentHeight = state.hoverHeight + state.jumpHeight;
+    const height = state.previousHeight + (currentHeight - state.previousHeight) * alpha;
+    
+    // Subtle floating animation - adjust to hover above the grid
+    const floatOffset = Math.sin(this.elapsedTime * 1.5) * 0.05;
+    
+    // Keep the hoverboard at a fixed z position relative to camera, at its hover height plus
+    // the floating animation and any jump
+    const z = this.boardZ + this.offsetZ;
+    if (curve) {
+      curve.place(this.mesh, x, height + floatOffset, z);
+    } else {
+      this.mesh.position.set(x, height + floatOffset, z);
+      this.mesh.rotation.y = 0;
     }
-
-    // Update mesh position
-    this.mesh.position.x = this.position.x;
-    this.mesh.position.z = 5; // Keep the hoverboard at a fixed z position relative to camera
     
-    // Calculate board tilt based on lateral movement
+    // Calculate board tilt based on lateral movement, leaning into turns
+    const lateralDiff = state.targetX - x;
     const lateralTilt = -Math.sign(lateralDiff) * Math.min(Math.abs(lateralDiff) * 0.3, 0.3); // Increased tilt for better visual feedback
-    this.mesh.rotation.z = lateralTilt;
-
-    // Subtle floating animation - adjust to hover above the grid
-    const floatOffset = Math.sin(elapsedTime * 1.5) * 0.05;
+    const bank = curve ? -curve.getTurnAmount() * 0.15 : 0;
+    this.mesh.rotation.z = lateralTilt + bank;
     
-    // Ensure the hoverboard maintains its hover height plus the floating animation
-    this.mesh.position.y = this.hoverHeight + floatOffset;
+    // Pitch the nose up on the way up and down on the way back, on top of any hill
+    const pitch = curve ? curve.getPitch(z) : 0;
+    this.mesh.rotation.x = pitch + (state.airborne ? state.verticalVelocity * 0.02 : 0);
   }
-
+  
   /**
    * Reset the hoverboard to initial state
+   * @param state Board state at the start of a run
    */
-  public reset(): void {
-    this.isMoving = false;
-    this.speed = 0;
-    this.currentLane = 1; // Reset to center lane
-    this.position.x = this.lanes[this.currentLane];
-    this.position.z = 5;
-    this.targetPosition.x = this.lanes[this.currentLane];
-    this.moveCooldown = 0;
-    this.mesh.position.x = this.position.x;
-    this.mesh.position.z = this.position.z;
+  public reset(state: Readonly<BoardState>): void {
+    this.state = state;
+    this.applyPose(1);
+    this.mesh.rotation.x = 0;
     this.mesh.rotation.z = 0;
   }
-
+  
   /**
    * Dispose of all resources
    */
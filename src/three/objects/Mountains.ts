@@ -1,5 +1,6 @@
 import * as THREE from 'three';
 import { PerlinNoise } from '../utils/PerlinNoise';
+import { SeededRandom } from '../utils/SeededRandom';
 
 /**
  * Represents mountain silhouettes that appear in front of the sun
@@ -7,13 +8,18 @@ import { PerlinNoise } from '../utils/PerlinNoise';
 export class Mountains {
   private mountainGroup: THREE.Group;
   private perlinNoise: PerlinNoise;
+  private rng: SeededRandom;
   
-  constructor() {
+  /**
+   * @param rng Random generator for the terrain, so the same seed gives the same skyline
+   */
+  constructor(rng: SeededRandom = new SeededRandom()) {
     // Initialize mountain group
     this.mountainGroup = new THREE.Group();
+    this.rng = rng;
     
     // Initialize Perlin noise
-    this.perlinNoise = new PerlinNoise(Math.random() * 100);
+    this.perlinNoise = new PerlinNoise(this.rng.int(0xffffffff));
     
     // Create simple mountain silhouettes
     this.createMountainSilhouettes();
@@ -82,7 +88,7 @@ export class Mountains {
     geometry.rotateX(-Math.PI / 2);
     
     // Get a different seed for varied mountains
-    const noiseSeed = Math.random() * 100;
+    const noiseSeed = this.rng.range(0, 100);
     
     // Update vertices to create mountain peaks
     const vertices = geometry.attributes.position.array;
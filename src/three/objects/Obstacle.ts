@@ -1,10 +1,11 @@
 import * as THREE from 'three';
+import { ObstacleEntity, ObstacleSlide, ObstacleType } from '../simulation/SimulationTypes';
+import { DEFAULT_SIMULATION_CONFIG, getLanePositions } from '../simulation/SimulationConfig';
+import { getLaneScale } from '../simulation/Collision';
+import { TrackCurve } from '../utils/TrackCurve';
 
-// Type of obstacle
-export enum ObstacleType {
-  WALL,        // Regular wall in one lane
-  DOUBLE_WALL  // Two walls forcing player to use a specific lane
-}
+// Height of the obstacle group above the grid
+const OBSTACLE_Y = 0.8;
 
 /**
  * Represents a cyberpunk obstacle that the player must avoid
@@ -12,13 +13,23 @@ export enum ObstacleType {
 export class Obstacle {
   private mesh: THREE.Group;
   private position: { x: number; z: number };
+  private previousX: number; // X position at the previous simulation step
+  private previousZ: number; // Z position at the previous simulation step
   private lane: number;
   private isActive: boolean = true;
-  private boundingBox: THREE.Box3;
   private obstacleType: ObstacleType;
   
-  // Lane system (should match HoverBoard)
-  private lanes = [-2.5, 0, 2.5]; // Left, Center, Right
+  // Sliding walls: the scheduled slide, the arrows showing its direction and the marker on the lane it slides into
+  private slide: ObstacleSlide | null = null;
+  private slideArrows: THREE.Group | null = null;
+  private slideTelegraph: THREE.Mesh | null = null;
+  
+  // Laser gates: the beams that light up in the lethal phase
+  private laserMaterial: THREE.MeshBasicMaterial | null = null;
+  private lit: boolean = true;
+  
+  // Lateral position of every lane on the current track
+  private lanes: readonly number[] = getLanePositions(DEFAULT_SIMULATION_CONFIG);
   
   constructor(width: number = 0.8, startZ: number = -100, type: ObstacleType = ObstacleType.WALL, lane: number = 1) {
     this.mesh = new THREE.Group();
@@ -28,21 +39,23 @@ export class Obstacle {
       x: this.lanes[lane],
       z: startZ
     };
+    this.previousX = this.position.x;
+    this.previousZ = startZ;
     
     // Create the obstacle based on type
     this.createObstacle(width);
     
     // Set initial position
-    this.mesh.position.set(this.position.x, 0.8, this.position.z);
-    
-    // Create bounding box for collision detection
-    this.boundingBox = new THREE.Box3().setFromObject(this.mesh);
+    this.mesh.position.set(this.position.x, OBSTACLE_Y, this.position.z);
   }
   
   /**
    * Create the obstacle geometry and materials
    */
   private createObstacle(width: number): void {
+    // Widen the meshes along with the lanes, as the collision volumes do
+    width *= this.getLaneScale();
+    
     switch (this.obstacleType) {
       case ObstacleType.WALL:
         this.createWallObstacle(width);
@@ -50,19 +63,31 @@ export class Obstacle {
       case ObstacleType.DOUBLE_WALL:
         this.createDoubleWallObstacle();
         break;
+      case ObstacleType.LOW_BARRIER:
+        this.createLowBarrierObstacle(width);
+        break;
+      case ObstacleType.OVERHEAD_BEAM:
+        this.createOverheadBeamObstacle();
+        break;
+      case ObstacleType.SLIDING_WALL:
+        this.createSlidingWallObstacle(width);
+        break;
+      case ObstacleType.LASER_GATE:
+        this.createLaserGateObstacle();
+        break;
     }
   }
   
   /**
    * Create a standard wall obstacle
    */
-  private createWallObstacle(width: number): void {
+  private createWallObstacle(width: number, color: number = 0xff00ff): void {
     // Create a wall-shaped obstacle (wider, thinner, taller)
     const wallGeometry = new THREE.BoxGeometry(3.0 * width, 3.0, 0.2);
     
     // Create material with built-in glow effect to avoid expensive lighting
     const wallMaterial = new THREE.MeshBasicMaterial({
-      color: 0xff00ff,
+      color,
       transparent: true,
       opacity: 0.7,
       depthWrite: true // Enable depth writing to prevent transparency issues
@@ -70,7 +95,7 @@ export class Obstacle {
     
     // Create the main wall
     const wall = new THREE.Mesh(wallGeometry, wallMaterial);
-    wall.position.y = 1.5; // Position above grid
+    wall.position.y = 0.7; // The group sits at y = 0.8, so the wall stands on the grid
     wall.renderOrder = 0; // Base render order
     this.mesh.add(wall);
     
@@ -85,7 +110,7 @@ export class Obstacle {
     });
     
     const edge = new THREE.Mesh(edgeGeometry, edgeMaterial);
-    edge.position.y = 1.5;
+    edge.position.y = 0.7;
     edge.position.z = -0.15; // Position behind the main wall
     edge.renderOrder = -1; // Render before the main wall
     this.mesh.add(edge);
@@ -98,22 +123,9 @@ export class Obstacle {
    * Create a double wall obstacle with an opening in one lane
    */
   private createDoubleWallObstacle(): void {
-    // Determine positions of the two walls based on the lane
-    // We'll create two walls that block two lanes, forcing the player to use the third lane
-    const lanesBlocked = [];
-    let widthMultiplier = 0.65; // Slightly narrower walls
-    
-    // Choose the two lanes to block
-    if (this.lane === 0) {
-      // Block center and right lanes (force player to left)
-      lanesBlocked.push(1, 2);
-    } else if (this.lane === 1) {
-      // Block left and right lanes (force player to center)
-      lanesBlocked.push(0, 2);
-    } else {
-      // Block left and center lanes (force player to right)
-      lanesBlocked.push(0, 1);
-    }
+    // Block every lane except the obstacle's own, forcing the player into it
+    const lanesBlocked = this.lanes.map((_, lane) => lane).filter(lane => lane !== this.lane);
+    const widthMultiplier = 0.65 * this.getLaneScale(); // Slightly narrower walls
     
     // Create each wall
     lanesBlocked.forEach(blockedLane => {
@@ -130,7 +142,7 @@ export class Obstacle {
       
       // Create the main wall
       const wall = new THREE.Mesh(wallGeometry, wallMaterial);
-      wall.position.y = 1.5; // Position above grid
+      wall.position.y = 0.7; // Stand on the grid
       wall.position.x = this.lanes[blockedLane] - this.lanes[this.lane]; // Position relative to the lane of the obstacle
       wall.renderOrder = 0;
       this.mesh.add(wall);
@@ -146,7 +158,7 @@ export class Obstacle {
       });
       
       const edge = new THREE.Mesh(edgeGeometry, edgeMaterial);
-      edge.position.y = 1.5;
+      edge.position.y = 0.7;
       edge.position.x = wall.position.x;
       edge.position.z = -0.15; // Position behind the main wall
       edge.renderOrder = -1;
@@ -157,6 +169,200 @@ export class Obstacle {
     });
   }
   
+  /**
+   * Create a low barrier obstacle that sits on the grid and can be jumped over
+   */
+  private createLowBarrierObstacle(width: number): void {
+    // Short and wide so it reads as "jump me" rather than "dodge me"
+    const barrierGeometry = new THREE.BoxGeometry(3.0 * width, 1.0, 0.2);
+    const barrierMaterial = new THREE.MeshBasicMaterial({
+      color: 0xffaa00,
+      transparent: true,
+      opacity: 0.7,
+      depthWrite: true
+    });
+    
+    // The group sits at y = 0.8, so this spans the grid surface up to y = 1.0
+    const barrier = new THREE.Mesh(barrierGeometry, barrierMaterial);
+    barrier.position.y = -0.3;
+    barrier.renderOrder = 0;
+    this.mesh.add(barrier);
+    
+    // Bright top rail to mark the height the board has to clear
+    const railGeometry = new THREE.BoxGeometry(3.1 * width, 0.08, 0.25);
+    const railMaterial = new THREE.MeshBasicMaterial({
+      color: 0x00ffff,
+      transparent: true,
+      opacity: 0.9,
+      depthWrite: false
+    });
+    
+    const rail = new THREE.Mesh(railGeometry, railMaterial);
+    rail.position.y = 0.2;
+    rail.renderOrder = 1;
+    this.mesh.add(rail);
+  }
+  
+  /**
+   * Create an overhead beam spanning every lane, held up by posts outside the track
+   */
+  private createOverheadBeamObstacle(): void {
+    // Center the beam on the track regardless of the lane it was spawned in
+    const trackCenterX = -this.lanes[this.lane];
+    const trackWidth = this.lanes[this.lanes.length - 1] - this.lanes[0];
+    const beamWidth = trackWidth + 3.0 * this.getLaneScale();
+    
+    // The group sits at y = 0.8, so the beam spans y = 0.6 to 1.4
+    // A standing board clips it, a ducking board slides underneath
+    const beamGeometry = new THREE.BoxGeometry(beamWidth, 0.8, 0.3);
+    const beamMaterial = new THREE.MeshBasicMaterial({
+      color: 0x9933ff,
+      transparent: true,
+      opacity: 0.75,
+      depthWrite: true
+    });
+    
+    const beam = new THREE.Mesh(beamGeometry, beamMaterial);
+    beam.position.set(trackCenterX, 0.2, 0);
+    beam.renderOrder = 0;
+    this.mesh.add(beam);
+    
+    // Glowing stripe along the underside to show the clearance height
+    const stripeGeometry = new THREE.BoxGeometry(beamWidth, 0.06, 0.35);
+    const stripeMaterial = new THREE.MeshBasicMaterial({
+      color: 0x00ffff,
+      transparent: true,
+      opacity: 0.9,
+      depthWrite: false
+    });
+    
+    const stripe = new THREE.Mesh(stripeGeometry, stripeMaterial);
+    stripe.position.set(trackCenterX, -0.2, 0);
+    stripe.renderOrder = 1;
+    this.mesh.add(stripe);
+    
+    // Support posts on either side of the track
+    const postGeometry = new THREE.BoxGeometry(0.25, 3.0, 0.25);
+    const postMaterial = new THREE.MeshBasicMaterial({
+      color: 0xff00ff,
+      transparent: true,
+      opacity: 0.7,
+      depthWrite: true
+    });
+    
+    [-1, 1].forEach(side => {
+      const post = new THREE.Mesh(postGeometry, postMaterial);
+      post.position.set(trackCenterX + side * beamWidth / 2, 0.7, 0);
+      post.renderOrder = 0;
+      this.mesh.add(post);
+    });
+  }
+  
+  /**
+   * Create a wall that slides into another lane, telegraphed by arrows and a marker on the lane it's heading for
+   */
+  private createSlidingWallObstacle(width: number): void {
+    this.createWallObstacle(width, 0xff6600);
+    
+    // Chevrons on the face of the wall pointing the way it will slide (flipped in reset for leftward slides)
+    this.slideArrows = new THREE.Group();
+    const arrowMaterial = new THREE.MeshBasicMaterial({
+      color: 0xffff00,
+      transparent: true,
+      opacity: 0.9,
+      depthWrite: false
+    });
+    const strokeGeometry = new THREE.BoxGeometry(0.5, 0.08, 0.05);
+    
+    [-0.4, 0.2].forEach(offsetX => {
+      [1, -1].forEach(side => {
+        const stroke = new THREE.Mesh(strokeGeometry, arrowMaterial);
+        stroke.position.set(offsetX, side * 0.17, 0);
+        stroke.rotation.z = -side * Math.PI / 4;
+        this.slideArrows!.add(stroke);
+      });
+    });
+    
+    this.slideArrows.position.set(0, 0.7, 0.2); // In front of the wall's grid lines
+    this.slideArrows.renderOrder = 2;
+    this.mesh.add(this.slideArrows);
+    
+    // Glowing marker on the grid in the lane the wall is heading for
+    const telegraphGeometry = new THREE.PlaneGeometry(2.2 * this.getLaneScale(), 6);
+    const telegraphMaterial = new THREE.MeshBasicMaterial({
+      color: 0xffff00,
+      transparent: true,
+      opacity: 0.3,
+      side: THREE.DoubleSide,
+      depthWrite: false
+    });
+    
+    this.slideTelegraph = new THREE.Mesh(telegraphGeometry, telegraphMaterial);
+    this.slideTelegraph.rotation.x = -Math.PI / 2;
+    this.slideTelegraph.position.set(0, -0.78, 0); // The group sits at y = 0.8, so this lies just above the grid
+    this.slideTelegraph.renderOrder = 1;
+    this.mesh.add(this.slideTelegraph);
+  }
+  
+  /**
+   * Create a laser gate: two posts with a curtain of laser beams between them that blinks on and off
+   */
+  private createLaserGateObstacle(): void {
+    const gateWidth = 2.2 * this.getLaneScale();
+    
+    // Posts either side of the lane
+    const postGeometry = new THREE.BoxGeometry(0.2, 3.2, 0.2);
+    const postMaterial = new THREE.MeshBasicMaterial({
+      color: 0x00ffff,
+      transparent: true,
+      opacity: 0.8,
+      depthWrite: true
+    });
+    
+    [-1, 1].forEach(side => {
+      const post = new THREE.Mesh(postGeometry, postMaterial);
+      post.position.set(side * gateWidth / 2, 0.8, 0); // The group sits at y = 0.8, so the posts stand on the grid
+      post.renderOrder = 0;
+      this.mesh.add(post);
+    });
+    
+    // Horizontal laser beams - shared material so the whole gate blinks together
+    this.laserMaterial = new THREE.MeshBasicMaterial({
+      color: 0xff0033,
+      transparent: true,
+      opacity: 0.9,
+      depthWrite: false
+    });
+    const beamGeometry = new THREE.BoxGeometry(gateWidth, 0.05, 0.05);
+    
+    const beamCount = 7;
+    for (let i = 0; i < beamCount; i++) {
+      const beam = new THREE.Mesh(beamGeometry, this.laserMaterial);
+      beam.position.y = -0.6 + i * (2.8 / (beamCount - 1)); // From just above the grid to the top of the posts
+      beam.renderOrder = 1;
+      this.mesh.add(beam);
+    }
+    
+    this.setLit(true);
+  }
+  
+  /**
+   * Show a laser gate's lethal (lit) or harmless (dark) phase
+   */
+  private setLit(lit: boolean): void {
+    if (!this.laserMaterial) return;
+    
+    this.lit = lit;
+    this.laserMaterial.opacity = lit ? 0.9 : 0.12;
+  }
+  
+  /**
+   * Get how much wider obstacles are on the current track than on the standard one
+   */
+  private getLaneScale(): number {
+    return getLaneScale(this.lanes[1] - this.lanes[0]);
+  }
+  
   /**
    * Add grid lines to the wall for cyberpunk effect
    */
@@ -218,28 +424,48 @@ export class Obstacle {
   }
   
   /**
-   * Update the obstacle position
+   * Copy the obstacle position from the latest simulation step
    */
-  public update(deltaTime: number, speed: number): void {
-    if (!this.isActive) return;
-    
-    // Move forward (increase z value)
-    this.position.z += speed * deltaTime;
-    this.mesh.position.z = this.position.z;
+  public sync(entity: ObstacleEntity): void {
+    this.position.x = entity.x;
+    this.position.z = entity.z;
+    this.previousX = entity.previousX;
+    this.previousZ = entity.previousZ;
+    this.lane = entity.lane;
     
-    // No rotation - walls don't rotate
-    
-    // Update bounding box only when close to player (performance optimization)
-    if (this.position.z > -10 && this.position.z < 15) {
-      this.boundingBox.setFromObject(this.mesh);
+    if (entity.lit !== undefined && entity.lit !== this.lit) {
+      this.setLit(entity.lit);
     }
   }
   
   /**
-   * Check if obstacle is past the player
+   * Place the mesh between the previous and current simulation step
+   * @param alpha Interpolation factor (0 = previous step, 1 = current step)
+   * @param curve Curve to bend the straight track onto
    */
-  public isPastPlayer(): boolean {
-    return this.position.z > 10;
+  public interpolate(alpha: number, curve?: TrackCurve): void {
+    if (!this.isActive) return;
+    
+    const x = this.previousX + (this.position.x - this.previousX) * alpha;
+    const z = this.previousZ + (this.position.z - this.previousZ) * alpha;
+    if (curve) {
+      curve.place(this.mesh, x, OBSTACLE_Y, z);
+    } else {
+      this.mesh.position.set(x, OBSTACLE_Y, z);
+    }
+    
+    // Keep the slide telegraph on the target lane until the wall gets there
+    if (this.slide) {
+      const remaining = this.lanes[this.slide.toLane] - x;
+      const sliding = Math.abs(remaining) > 0.05;
+      if (this.slideTelegraph) {
+        this.slideTelegraph.position.x = remaining;
+        this.slideTelegraph.visible = sliding;
+      }
+      if (this.slideArrows) {
+        this.slideArrows.visible = sliding;
+      }
+    }
   }
   
   /**
@@ -256,13 +482,6 @@ export class Obstacle {
     return this.lane;
   }
   
-  /**
-   * Get the obstacle's bounding box for collision detection
-   */
-  public getBoundingBox(): THREE.Box3 {
-    return this.boundingBox;
-  }
-  
   /**
    * Check if the obstacle is active
    */
@@ -279,18 +498,34 @@ export class Obstacle {
   }
   
   /**
-   * Reset the obstacle to a new position
+   * Reset the obstacle for a newly spawned simulation obstacle
+   * @param entity The simulated obstacle
+   * @param lanes Lateral position of every lane on the track
    */
-  public reset(lane: number, startZ: number, type: ObstacleType = ObstacleType.WALL): void {
-    this.lane = lane;
-    this.position.x = this.lanes[lane];
-    this.position.z = startZ;
+  public reset(entity: ObstacleEntity, lanes: readonly number[]): void {
+    const type = entity.type;
+    const laneChanged = entity.lane !== this.lane;
+    
+    // Double walls and beams are built around their lane, so they also need rebuilding when it moves
+    const rebuild = type !== this.obstacleType || lanes !== this.lanes ||
+      (laneChanged && (type === ObstacleType.DOUBLE_WALL || type === ObstacleType.OVERHEAD_BEAM));
+    
+    this.lane = entity.lane;
+    this.lanes = lanes;
+    this.position.x = entity.x;
+    this.position.z = entity.z;
+    this.previousX = entity.x;
+    this.previousZ = entity.z;
+    this.slide = entity.slide ?? null;
     
-    // If type has changed, rebuild the obstacle
-    if (type !== this.obstacleType) {
+    // If the shape has changed, rebuild the obstacle
+    if (rebuild) {
       this.obstacleType = type;
       
       // Clear existing meshes
+      this.slideArrows = null;
+      this.slideTelegraph = null;
+      this.laserMaterial = null;
       while (this.mesh.children.length > 0) {
         const child = this.mesh.children[0];
         if (child instanceof THREE.Mesh) {
@@ -308,7 +543,15 @@ export class Obstacle {
       this.createObstacle(0.8);
     }
     
-    this.mesh.position.set(this.position.x, 0.8, startZ);
+    // Point the slide arrows the way this wall will go
+    if (this.slide && this.slideArrows) {
+      this.slideArrows.scale.x = this.slide.toLane > this.slide.fromLane ? 1 : -1;
+    }
+    if (this.slideTelegraph) {
+      this.slideTelegraph.visible = this.slide !== null;
+    }
+    
+    this.mesh.position.set(this.position.x, OBSTACLE_Y, this.position.z);
     this.isActive = true;
     this.mesh.visible = true;
   }
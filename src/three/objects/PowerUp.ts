@@ -0,0 +1,190 @@
+import * as THREE from 'three';
+import { PowerUpEntity, PowerUpType } from '../simulation/SimulationTypes';
+import { TrackCurve } from '../utils/TrackCurve';
+
+// Colors used for each power-up type
+const POWER_UP_COLORS: Record<PowerUpType, number> = {
+  shield: 0x3399ff,
+  magnet: 0xff3344,
+  multiplier: 0xffdd00,
+  slowMotion: 0xaa66ff
+};
+
+// Height the power-up floats above the grid
+const POWER_UP_Y = 1.2;
+
+/**
+ * Represents a collectible power-up that grants a timed effect
+ */
+export class PowerUp {
+  private mesh: THREE.Group;
+  private position: { x: number; z: number };
+  private previousZ: number; // Z position at the previous simulation step
+  private lane: number;
+  private isActive: boolean = true;
+  private powerUpType: PowerUpType;
+  private rotationSpeed: number = 2;
+  private coreMaterial!: THREE.MeshBasicMaterial;
+  private ringMaterial!: THREE.MeshBasicMaterial;
+  private light!: THREE.PointLight;
+  
+  constructor(lane: number = 1, x: number = 0, startZ: number = -100, type: PowerUpType = 'shield') {
+    this.mesh = new THREE.Group();
+    this.lane = lane;
+    this.powerUpType = type;
+    this.position = {
+      x,
+      z: startZ
+    };
+    this.previousZ = startZ;
+    
+    // Create the power-up
+    this.createPowerUp();
+    this.applyTypeColors();
+    
+    // Set initial position - floating above the grid like crystals
+    this.mesh.position.set(this.position.x, POWER_UP_Y, this.position.z);
+  }
+  
+  /**
+   * Create the power-up geometry and materials
+   */
+  private createPowerUp(): void {
+    // Solid core so it reads differently from the octahedron crystals
+    const coreGeometry = new THREE.IcosahedronGeometry(0.4, 0);
+    this.coreMaterial = new THREE.MeshBasicMaterial({
+      transparent: true,
+      opacity: 0.85,
+      depthWrite: true
+    });
+    
+    const core = new THREE.Mesh(coreGeometry, this.coreMaterial);
+    core.renderOrder = 0;
+    this.mesh.add(core);
+    
+    // Spinning ring around the core
+    const ringGeometry = new THREE.TorusGeometry(0.65, 0.06, 8, 24);
+    this.ringMaterial = new THREE.MeshBasicMaterial({
+      transparent: true,
+      opacity: 0.7,
+      depthWrite: false
+    });
+    
+    const ring = new THREE.Mesh(ringGeometry, this.ringMaterial);
+    ring.renderOrder = 1;
+    this.mesh.add(ring);
+    
+    // Small point light for the glow
+    this.light = new THREE.PointLight(0xffffff, 0.8, 3);
+    this.mesh.add(this.light);
+  }
+  
+  /**
+   * Tint the materials to match the power-up type
+   */
+  private applyTypeColors(): void {
+    const color = POWER_UP_COLORS[this.powerUpType];
+    this.coreMaterial.color.setHex(color);
+    this.ringMaterial.color.setHex(0xffffff).lerp(new THREE.Color(color), 0.5);
+    this.light.color.setHex(color);
+  }
+  
+  /**
+   * Get the mesh for rendering
+   */
+  public getMesh(): THREE.Group {
+    return this.mesh;
+  }
+  
+  /**
+   * Copy the power-up position from the latest simulation step
+   */
+  public sync(entity: PowerUpEntity): void {
+    this.position.z = entity.z;
+    this.previousZ = entity.previousZ;
+  }
+  
+  /**
+   * Update the power-up animation (called every rendered frame)
+   * @param deltaTime Time since last frame
+   * @param alpha Interpolation factor (0 = previous step, 1 = current step)
+   * @param curve Curve to bend the straight track onto
+   */
+  public update(deltaTime: number, alpha: number, curve?: TrackCurve): void {
+    if (!this.isActive) return;
+    
+    // Place the mesh between the previous and current simulation step, without turning it off its spin
+    const z = this.previousZ + (this.position.z - this.previousZ) * alpha;
+    if (curve) {
+      curve.place(this.mesh, this.position.x, POWER_UP_Y, z, false);
+    } else {
+      this.mesh.position.z = z;
+    }
+    
+    // Spin the whole group so the ring catches the eye
+    this.mesh.rotation.y += this.rotationSpeed * deltaTime;
+  }
+  
+  /**
+   * Get the power-up type
+   */
+  public getType(): PowerUpType {
+    return this.powerUpType;
+  }
+  
+  /**
+   * Get the lane of the power-up
+   */
+  public getLane(): number {
+    return this.lane;
+  }
+  
+  /**
+   * Check if the power-up is active
+   */
+  public isPowerUpActive(): boolean {
+    return this.isActive;
+  }
+  
+  /**
+   * Set the power-up's active state
+   */
+  public setActive(active: boolean): void {
+    this.isActive = active;
+    this.mesh.visible = active;
+  }
+  
+  /**
+   * Reset the power-up for reuse
+   */
+  public reset(lane: number, x: number, startZ: number, type: PowerUpType): void {
+    this.lane = lane;
+    this.position.x = x;
+    this.position.z = startZ;
+    this.previousZ = startZ;
+    this.mesh.position.set(this.position.x, POWER_UP_Y, this.position.z);
+    
+    if (type !== this.powerUpType) {
+      this.powerUpType = type;
+      this.applyTypeColors();
+    }
+    
+    this.setActive(true);
+  }
+  
+  /**
+   * Dispose of resources
+   */
+  public dispose(): void {
+    this.mesh.traverse((child) => {
+      if (child instanceof THREE.Mesh) {
+        child.geometry.dispose();
+        if (Array.isArray(child.material)) {
+          child.material.forEach(material => material.dispose());
+        } else {
+          child.material.dispose();
+        }
+      }
+    });
+  }
+}
@@ -7,6 +7,7 @@ import { SunShader } from '../shaders/SunShader';
 export class Sun {
   private sun: THREE.Mesh;
   private sunMaterial: THREE.ShaderMaterial;
+  private bass: number = 0; // Bass level of the music (0-1)
   
   constructor() {
     // Create geometry for the sun - much larger to fill the entire background
@@ -28,13 +29,21 @@ export class Sun {
     return this.sun;
   }
   
+  /**
+   * Pulse the sun with the music
+   * @param bass Bass level of the music (0-1)
+   */
+  public setBass(bass: number): void {
+    this.bass = bass;
+  }
+  
   /**
    * Update the sun animation
    * @param deltaTime Time since last frame
    */
   public update(deltaTime: number): void {
     // Update shader uniforms
-    SunShader.update(this.sunMaterial, this.sunMaterial.uniforms.time.value + deltaTime);
+    SunShader.update(this.sunMaterial, this.sunMaterial.uniforms.time.value + deltaTime, this.bass);
   }
   
   /**
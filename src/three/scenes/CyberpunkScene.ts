@@ -1,44 +1,99 @@
 import * as THREE from 'three';
 import { Scene } from '../core/Scene';
+import { AudioManager } from '../core/AudioManager';
 import { Grid } from '../objects/Grid';
 import { Mountains } from '../objects/Mountains';
 import { Sun } from '../objects/Sun';
 import { HoverBoard } from '../objects/HoverBoard';
-import { Obstacle, ObstacleType } from '../objects/Obstacle';
+import { getBoardSkin } from '../objects/BoardSkins';
+import { Obstacle } from '../objects/Obstacle';
 import { Crystal } from '../objects/Crystal';
-import { gameStateAtom, distanceAtom, GameState, scoreAtom, crystalCountAtom } from '../store/gameStore';
+import { PowerUp } from '../objects/PowerUp';
+import { SeededRandom } from '../utils/SeededRandom';
+import { TrackCurve } from '../utils/TrackCurve';
+import { GameSimulation } from '../simulation/GameSimulation';
+import { DEFAULT_SIMULATION_CONFIG, FIXED_STEP, SimulationConfig } from '../simulation/SimulationConfig';
+import { ReplayRecorder } from '../simulation/ReplayRecorder';
+import { ReplayPlayer } from '../simulation/ReplayPlayer';
+import { MissionTracker } from '../simulation/Missions';
+import { applyDifficulty } from '../simulation/Difficulty';
+import { getStartingAssist } from '../simulation/AdaptiveDifficulty';
+import {
+  ActivePowerUps, BoardAction, OBSTACLE_NAMES, ObstacleEntity, ObstacleType, PowerUpType, SimulationEvent
+} from '../simulation/SimulationTypes';
+import {
+  gameStateAtom, distanceAtom, GameState, scoreAtom, crystalCountAtom, crystalScoreAtom,
+  activePowerUpsAtom, multiplierBonusAtom, nearMissesAtom, nearMissScoreAtom, comboBonusAtom, comboAtom,
+  ComboState, reviveOfferAtom, acceptRevive, declineRevive, fixedSeedAtom, laneCountAtom, runSeedAtom,
+  activeReplayAtom, finalScoreAtom, saveReplay, bestReplayAtom, ghostDeltaAtom, recordRun,
+  bankCrystals, equippedSkinAtom, recordMissions, difficultyAtom, adaptiveAtom, runHistoryAtom, beatSyncAtom
+} from '../store/gameStore';
 import { getDefaultStore } from 'jotai';
 
+// Every power-up type, used when publishing the active effects
+const POWER_UP_TYPES: PowerUpType[] = ['shield', 'magnet', 'multiplier', 'slowMotion'];
+
+// Semitones the crystal sound climbs through as the combo builds (a major pentatonic scale)
+const COMBO_PITCHES = [0, 2, 4, 7, 9, 12, 14, 16, 19, 21, 24];
+
 /**
  * The main cyberpunk-themed scene
+ * Gameplay rules live in GameSimulation - this scene feeds it input and renders its state
  */
 export class CyberpunkScene extends Scene {
   private grid: Grid;
   private mountains: Mountains;
   private sun: Sun;
   private hoverboard: HoverBoard;
-  private obstacles: Obstacle[] = [];
+  private simulation: GameSimulation = new GameSimulation();
+  private fixedStep: number = FIXED_STEP; // Step length used by the scene manager
+  
+  // Turns and hills the straight simulated track is bent into for display
+  private trackCurve: TrackCurve;
+  private backdropOffset = new THREE.Vector2();
+  private cameraBank: number = 0.08; // Camera roll at the tightest turn (radians)
+  
+  // Replays - every player run is recorded, a replay run takes its input from the log instead
+  private recorder: ReplayRecorder = new ReplayRecorder();
+  private missionTracker: MissionTracker = new MissionTracker();
+  private replayPlayer: ReplayPlayer | null = null;
+  
+  // Ghost of the best run, simulated alongside the live run from its replay
+  private ghostBoard: HoverBoard;
+  private ghostSimulation: GameSimulation | null = null;
+  private ghostPlayer: ReplayPlayer | null = null;
+  private ghostOpacity: number = 0.3;
+  private maxGhostOffset: number = 60; // Don't place the ghost further than this ahead of the player
+  
+  // Revive offered after a crash - the run holds still until it's taken or the time runs out
+  private crashObstacle: ObstacleEntity | null = null;
+  private reviveCountdown: number = 5; // Seconds the player gets to decide
+  private replayReviveDelay: number = 1; // Seconds a replay lingers on the crash before its recorded revive
+  private reviveTimeLeft: number = 0;
+  
+  // Pooled views of the simulated entities, keyed by entity id
+  private obstacles: Map<number, Obstacle> = new Map();
   private obstaclePool: Obstacle[] = [];
-  private crystals: Crystal[] = [];
+  private crystals: Map<number, Crystal> = new Map();
   private crystalPool: Crystal[] = [];
-  private nextObstacleTime: number = 0;
-  private nextCrystalTime: number = 0;
-  private minObstacleSpacing: number = 3.0; // Increased minimum spacing for better gameplay
-  private maxObstacleSpacing: number = 6.0; // Increased maximum spacing for better gameplay
-  private minCrystalSpacing: number = 2.0;
-  private maxCrystalSpacing: number = 4.0;
-  private obstacleSpawningActive: boolean = false;
-  private crystalSpawningActive: boolean = false;
-  private hoverboardBox: THREE.Box3 = new THREE.Box3();
-  private gameTime: number = 0;
+  private powerUps: Map<number, PowerUp> = new Map();
+  private powerUpPool: PowerUp[] = [];
+  private publishedPowerUps: string = ''; // Last power-up state pushed to the store
+  private publishedCombo: string = ''; // Last combo state pushed to the store
+  
+  private gameTime: number = 0; // Time used by visual effects, advanced with every simulation step
   private keyStates: { [key: string]: boolean } = {};
+  private duckKeyHeld: boolean = false; // Whether the duck key was down on the last step
   private store = getDefaultStore();
   private gameState: GameState = 'idle';
-  private backgroundMusic: HTMLAudioElement | null = null;
-  private crystalSound: HTMLAudioElement | null = null;
-  private explosionSound: HTMLAudioElement | null = null;
+  private audio: AudioManager | null = null;
   // Flag to ignore the first tap/click after starting the game
   private ignoreNextTap: boolean = false;
+  // Where the current touch started, used to tell swipes from taps
+  private touchStart: { x: number; y: number } | null = null;
+  private swipeThreshold: number = 40; // Minimum travel in pixels to count as a swipe
+  // Touch/click actions wait here until the next simulation step so input lines up with fixed steps
+  private pendingActions: BoardAction[] = [];
   
   // Particle systems
   private crystalParticles: {
@@ -69,10 +124,15 @@ export class CyberpunkScene extends Scene {
     this.camera.rotation.x = -0.3; // Adjusted angle to look at board and grid
     
     // Create scene objects
-    this.grid = new Grid(300); // Larger grid for more immersive environment
-    this.mountains = new Mountains();
+    this.trackCurve = new TrackCurve(this.simulation.getConfig().boardZ);
+    this.grid = new Grid(300, this.trackCurve); // Larger grid for more immersive environment
+    this.mountains = new Mountains(new SeededRandom(this.store.get(fixedSeedAtom) ?? SeededRandom.randomSeed()));
     this.sun = new Sun();
     this.hoverboard = new HoverBoard();
+    this.hoverboard.reset(this.simulation.getBoard());
+    this.hoverboard.setSkin(getBoardSkin(this.store.get(equippedSkinAtom)));
+    this.ghostBoard = new HoverBoard();
+    this.ghostBoard.setGhost(this.ghostOpacity);
     
     // Setup keyboard controls
     this.setupKeyboardControls();
@@ -82,6 +142,18 @@ export class CyberpunkScene extends Scene {
       const newState = this.store.get(gameStateAtom);
       this.handleGameStateChange(newState);
     });
+    
+    // Repaint the board when another skin is equipped in the shop (the ghost keeps the default look)
+    this.store.sub(equippedSkinAtom, () => {
+      this.hoverboard.setSkin(getBoardSkin(this.store.get(equippedSkinAtom)));
+    });
+    
+    // Detect the music's beat the first time beat sync is turned on
+    this.store.sub(beatSyncAtom, () => {
+      if (this.store.get(beatSyncAtom)) {
+        this.audio?.loadBeatGrid();
+      }
+    });
   }
   
   /**
@@ -108,9 +180,14 @@ export class CyberpunkScene extends Scene {
     
     // Set up hoverboard - let it hover above the grid naturally
     const hoverboardMesh = this.hoverboard.getMesh();
-    hoverboardMesh.position.z = 5; // Positioned in front of the camera
+    hoverboardMesh.position.z = this.simulation.getConfig().boardZ; // Positioned in front of the camera
     this.scene.add(hoverboardMesh);
     
+    // Ghost board stays hidden until a run with a recorded best run starts
+    const ghostMesh = this.ghostBoard.getMesh();
+    ghostMesh.visible = false;
+    this.scene.add(ghostMesh);
+    
     // Add ambient light
     const ambientLight = new THREE.AmbientLight(0x9900ff, 0.3); // Increased ambient light
     this.scene.add(ambientLight);
@@ -141,31 +218,19 @@ export class CyberpunkScene extends Scene {
     // Initialize crystal pool
     this.initializeCrystalPool();
     
-    // Initialize background music
-    this.initializeAudio();
+    // Initialize power-up pool
+    this.initializePowerUpPool();
+    
+    // Initialize music and sound effects (the music's beat is only detected once beat sync is on)
+    this.audio = new AudioManager();
+    if (this.store.get(beatSyncAtom)) {
+      this.audio.loadBeatGrid();
+    }
     
     // Initialize explosion particles system
     this.initializeExplosionParticles();
   }
   
-  /**
-   * Initialize audio elements
-   */
-  private initializeAudio(): void {
-    // Create background music
-    this.backgroundMusic = new Audio('/vibing.mp3');
-    this.backgroundMusic.loop = true;
-    this.backgroundMusic.volume = 0.25;
-    
-    // Create crystal sound effect
-    this.crystalSound = new Audio('/crystal.mp3');
-    this.crystalSound.volume = 0.5;
-    
-    // Create explosion sound effect
-    this.explosionSound = new Audio('/explode.mp3');
-    this.explosionSound.volume = 0.6;
-  }
-  
   /**
    * Initialize a pool of reusable obstacles
    */
@@ -192,13 +257,28 @@ export class CyberpunkScene extends Scene {
     
     for (let i = 0; i < poolSize; i++) {
       // Create crystals but keep them far away and inactive initially
-      const crystal = new Crystal(1, -200);
+      const crystal = new Crystal(1, 0, -200);
       this.crystalPool.push(crystal);
       this.scene.add(crystal.getMesh());
       crystal.setActive(false); // Initially inactive
     }
   }
   
+  /**
+   * Initialize a pool of reusable power-ups
+   */
+  private initializePowerUpPool(): void {
+    // Power-ups are rare, so only a few are ever on screen at once
+    const poolSize = 3;
+    
+    for (let i = 0; i < poolSize; i++) {
+      const powerUp = new PowerUp(1, 0, -200);
+      this.powerUpPool.push(powerUp);
+      this.scene.add(powerUp.getMesh());
+      powerUp.setActive(false); // Initially inactive
+    }
+  }
+  
   /**
    * Get an obstacle from the pool
    */
@@ -224,341 +304,362 @@ export class CyberpunkScene extends Scene {
   }
   
   /**
-   * Spawn a new obstacle
+   * Get a power-up from the pool
    */
-  private spawnObstacle(): void {
-    if (!this.obstacleSpawningActive) return;
-    
-    const obstacle = this.getObstacleFromPool();
-    if (!obstacle) return; // No available obstacles in the pool
-    
-    // Determine obstacle type based on player progress
-    // As the game progresses, increase the chance of double wall obstacles
-    const distance = this.hoverboard.getDistance();
-    let obstacleType = ObstacleType.WALL;
-    
-    // After 500 distance, start introducing double walls with increasing probability
-    if (distance > 500) {
-      // Probability increases with distance, capping at 40% chance
-      const doubleWallChance = Math.min(0.4, (distance - 500) / 2000);
-      if (Math.random() < doubleWallChance) {
-        obstacleType = ObstacleType.DOUBLE_WALL;
+  private getPowerUpFromPool(): PowerUp | null {
+    for (const powerUp of this.powerUpPool) {
+      if (!powerUp.isPowerUpActive()) {
+        return powerUp;
       }
     }
-    
-    // Choose a random lane (0, 1, or 2)
-    let lane = Math.floor(Math.random() * 3);
-    
-    // Check if there's already an obstacle in this lane that's too close
-    const tooClose = this.obstacles.some(existing => {
-      const existingZ = existing.getMesh().position.z;
-      const existingLane = existing.getLane();
-      // Don't spawn in the same lane if there's already an obstacle within 20 units
-      return (existingLane === lane) && (existingZ < -80) && (existingZ > -140);
-    });
-    
-    // If too close, try a different lane
-    if (tooClose) {
-      // Try a different lane (cyclically)
-      lane = (lane + 1 + Math.floor(Math.random() * 2)) % 3;
-    }
-    
-    // Ensure obstacles are spawned far enough away to be invisible initially
-    // This helps with performance as they become visible more gradually
-    const startZ = -140; 
-    
-    // Initialize the obstacle
-    obstacle.reset(lane, startZ, obstacleType);
-    
-    // Add to active obstacles list
-    this.obstacles.push(obstacle);
-    
-    // Set time for next obstacle - adjust timing based on current speed
-    const speedFactor = Math.min(distance / 1000, 1); // Max speedup factor of 1
-    
-    // As the game progresses, decrease the minimum and maximum obstacle spacing
-    // This makes the game gradually more challenging
-    const adjustedMinSpacing = Math.max(this.minObstacleSpacing - speedFactor, 1.5);
-    const adjustedMaxSpacing = Math.max(this.maxObstacleSpacing - speedFactor * 2, 3.0);
-    
-    this.nextObstacleTime = this.gameTime + adjustedMinSpacing + 
-                          Math.random() * (adjustedMaxSpacing - adjustedMinSpacing);
+    return null; // No available power-ups in the pool
   }
   
+  
   /**
-   * Spawn a new crystal
+   * Match the pooled obstacle meshes to the simulated obstacles
    */
-  private spawnCrystal(): void {
-    if (!this.crystalSpawningActive) return;
-    
-    // Choose a pattern type
-    const patternType = Math.floor(Math.random() * 3); // 0: straight line, 1: zigzag, 2: diagonal
-    
-    // Pattern parameters
-    const startLane = Math.floor(Math.random() * 3); // 0, 1, or 2
-    const startZ = -130;
-    const spacing = 8; // Spacing between consecutive crystals in a pattern
-    
-    switch (patternType) {
-      case 0: // Straight line of 3 crystals in a single lane
-        this.spawnCrystalPattern(startLane, startZ, [
-          { laneOffset: 0, zOffset: 0 },
-          { laneOffset: 0, zOffset: spacing },
-          { laneOffset: 0, zOffset: spacing * 2 }
-        ]);
-        break;
-        
-      case 1: // Zigzag pattern across lanes
-        this.spawnCrystalPattern(startLane, startZ, [
-          { laneOffset: 0, zOffset: 0 },
-          { laneOffset: 1, zOffset: spacing * 0.7 },
-          { laneOffset: 0, zOffset: spacing * 1.4 },
-          { laneOffset: -1, zOffset: spacing * 2.1 },
-          { laneOffset: 0, zOffset: spacing * 2.8 }
-        ]);
-        break;
+  private syncObstacles(): void {
+    const liveIds = new Set<number>();
+    
+    for (const entity of this.simulation.getObstacles()) {
+      liveIds.add(entity.id);
+      
+      // Newly spawned obstacle - take a mesh from the pool
+      let obstacle = this.obstacles.get(entity.id);
+      if (!obstacle) {
+        const pooled = this.getObstacleFromPool();
+        if (!pooled) continue; // No available obstacles in the pool
         
-      case 2: // Diagonal line pattern
-        this.spawnCrystalPattern(startLane, startZ, [
-          { laneOffset: 0, zOffset: 0 },
-          { laneOffset: 1, zOffset: spacing },
-          { laneOffset: 2, zOffset: spacing * 2 }
-        ]);
-        break;
+        obstacle = pooled;
+        obstacle.reset(entity, this.simulation.getLanes());
+        this.obstacles.set(entity.id, obstacle);
+      }
+      
+      obstacle.sync(entity);
     }
     
-    // Set time for next pattern - adjust timing based on current speed
-    const distance = this.hoverboard.getDistance();
-    const speedFactor = Math.min(distance / 1000, 1); // Max speedup factor of 1
-    
-    // As the game progresses, decrease the crystal spacing
-    const adjustedMinSpacing = Math.max(this.minCrystalSpacing - speedFactor, 1.0);
-    const adjustedMaxSpacing = Math.max(this.maxCrystalSpacing - speedFactor, 2.0);
-    
-    // Longer delay between patterns compared to single crystals
-    this.nextCrystalTime = this.gameTime + (adjustedMinSpacing + 
-                          Math.random() * (adjustedMaxSpacing - adjustedMinSpacing)) * 2;
+    // Return meshes of obstacles that left the track to the pool
+    for (const [id, obstacle] of this.obstacles) {
+      if (!liveIds.has(id)) {
+        obstacle.setActive(false);
+        this.obstacles.delete(id);
+      }
+    }
   }
   
   /**
-   * Spawn a pattern of crystals based on offsets
-   * @param baseLane The starting lane (0, 1, or 2)
-   * @param baseZ The starting Z position
-   * @param pattern Array of { laneOffset, zOffset } defining the pattern
+   * Match the pooled crystal meshes to the simulated crystals
    */
-  private spawnCrystalPattern(baseLane: number, baseZ: number, pattern: Array<{laneOffset: number, zOffset: number}>): void {
-    pattern.forEach(point => {
-      const crystal = this.getCrystalFromPool();
-      if (!crystal) return;
-      
-      // Calculate lane, keeping within valid range (0-2) and wrapping around
-      let lane = (baseLane + point.laneOffset) % 3;
-      if (lane < 0) lane += 3;
-      
-      // Calculate Z position
-      const startZ = baseZ - point.zOffset;
+  private syncCrystals(): void {
+    const liveIds = new Set<number>();
+    
+    for (const entity of this.simulation.getCrystals()) {
+      liveIds.add(entity.id);
       
-      // Initialize and position the crystal
-      crystal.reset(lane, startZ);
+      // Newly spawned crystal - take a mesh from the pool
+      let crystal = this.crystals.get(entity.id);
+      if (!crystal) {
+        const pooled = this.getCrystalFromPool();
+        if (!pooled) continue; // No available crystals in the pool
+        
+        crystal = pooled;
+        crystal.reset(entity.lane, entity.x, entity.z);
+        this.crystals.set(entity.id, crystal);
+      }
       
-      // Add to active crystals list
-      this.crystals.push(crystal);
-    });
+      crystal.sync(entity);
+    }
+    
+    // Return meshes of crystals that were collected or passed to the pool
+    for (const [id, crystal] of this.crystals) {
+      if (!liveIds.has(id)) {
+        crystal.setActive(false);
+        this.crystals.delete(id);
+      }
+    }
   }
   
   /**
-   * Update obstacles
+   * Match the pooled power-up meshes to the simulated power-ups
    */
-  private updateObstacles(deltaTime: number, speed: number): void {
-    // Check if it's time to spawn a new obstacle
-    if (this.gameTime >= this.nextObstacleTime) {
-      this.spawnObstacle();
-    }
-    
-    // Update all active obstacles - limit the number of active obstacles for performance
-    const maxVisibleObstacles = 6; // Slight increase to ensure smooth performance
-    
-    // Sort obstacles by z-position (closest first) to prioritize updating the closest ones
-    this.obstacles.sort((a, b) => b.getMesh().position.z - a.getMesh().position.z);
-    
-    // Only update the closest obstacles
-    const obstaclesToUpdate = Math.min(this.obstacles.length, maxVisibleObstacles);
+  private syncPowerUps(): void {
+    const liveIds = new Set<number>();
     
-    for (let i = 0; i < obstaclesToUpdate; i++) {
-      this.obstacles[i].update(deltaTime, speed);
-    }
-    
-    // Check for obstacles that are past the player
-    for (let i = this.obstacles.length - 1; i >= 0; i--) {
-      const obstacle = this.obstacles[i];
+    for (const entity of this.simulation.getPowerUps()) {
+      liveIds.add(entity.id);
       
-      // Check if obstacle is past the player
-      if (obstacle.isPastPlayer()) {
-        // Remove from active obstacles
-        this.obstacles.splice(i, 1);
-        obstacle.setActive(false);
+      // Newly spawned power-up - take a mesh from the pool
+      let powerUp = this.powerUps.get(entity.id);
+      if (!powerUp) {
+        const pooled = this.getPowerUpFromPool();
+        if (!pooled) continue; // No available power-ups in the pool
         
-        // Update score (player successfully avoided this obstacle)
-        const currentScore = this.store.get(scoreAtom);
-        this.store.set(scoreAtom, currentScore + 10);
+        powerUp = pooled;
+        powerUp.reset(entity.lane, entity.x, entity.z, entity.type);
+        this.powerUps.set(entity.id, powerUp);
+      }
+      
+      powerUp.sync(entity);
+    }
+    
+    // Return meshes of power-ups that were collected or passed to the pool
+    for (const [id, powerUp] of this.powerUps) {
+      if (!liveIds.has(id)) {
+        powerUp.setActive(false);
+        this.powerUps.delete(id);
       }
     }
   }
   
   /**
-   * Update crystals
+   * Hide every pooled mesh
    */
-  private updateCrystals(deltaTime: number, speed: number): void {
-    // Check if it's time to spawn a new crystal
-    if (this.gameTime >= this.nextCrystalTime) {
-      this.spawnCrystal();
+  private clearViews(): void {
+    for (const obstacle of this.obstaclePool) {
+      obstacle.setActive(false);
     }
+    this.obstacles.clear();
     
-    // Update all active crystals
-    const maxVisibleCrystals = 6; 
-    
-    // Sort crystals by z-position (closest first) to prioritize updating the closest ones
-    this.crystals.sort((a, b) => b.getMesh().position.z - a.getMesh().position.z);
-    
-    // Only update the closest crystals
-    const crystalsToUpdate = Math.min(this.crystals.length, maxVisibleCrystals);
+    for (const crystal of this.crystalPool) {
+      crystal.setActive(false);
+    }
+    this.crystals.clear();
     
-    for (let i = 0; i < crystalsToUpdate; i++) {
-      this.crystals[i].update(deltaTime, speed);
+    for (const powerUp of this.powerUpPool) {
+      powerUp.setActive(false);
+    }
+    this.powerUps.clear();
+  }
+  
+  /**
+   * Play sounds and effects for what happened during the last simulation step
+   */
+  private handleSimulationEvents(): void {
+    for (const event of this.simulation.getEvents()) {
+      this.handleSimulationEvent(event);
     }
+  }
+  
+  /**
+   * Play sounds and effects for a single simulation event
+   */
+  private handleSimulationEvent(event: SimulationEvent): void {
+    this.missionTracker.handleEvent(event);
     
-    // Check for crystals that are past the player
-    for (let i = this.crystals.length - 1; i >= 0; i--) {
-      const crystal = this.crystals[i];
+    switch (event.type) {
+      case 'crystalCollected':
+        this.playCrystalSound(this.simulation.getCombo());
+        this.createCrystalParticles(new THREE.Vector3(event.crystal.x, 1.2, event.crystal.z));
+        break;
       
-      // Check if crystal is past the player
-      if (crystal.isPastPlayer()) {
-        // Remove from active crystals
-        this.crystals.splice(i, 1);
-        crystal.setActive(false);
-      }
+      case 'powerUpCollected':
+        this.playCrystalSound();
+        this.createCrystalParticles(new THREE.Vector3(event.powerUp.x, 1.2, event.powerUp.z));
+        this.publishPowerUps();
+        break;
+      
+      case 'nearMiss':
+        // Sparks off the side of the obstacle that just brushed past
+        this.createCrystalParticles(new THREE.Vector3((event.obstacle.x + this.simulation.getBoard().x) / 2, 1.2, event.obstacle.z));
+        break;
+      
+      case 'shieldAbsorbed':
+        // Burst of particles where the obstacle was
+        this.playCrystalSound();
+        this.createCrystalParticles(new THREE.Vector3(event.obstacle.x, 1.2, event.obstacle.z));
+        this.publishPowerUps();
+        break;
+      
+      case 'collision':
+        this.handleObstacleCollision(event.obstacle);
+        break;
+      
+      case 'obstaclePassed':
+        // Score is published with the rest of the run state
+        break;
     }
   }
   
   /**
-   * Check for collisions between hoverboard and obstacles/crystals
+   * Handle collision with obstacle
    */
-  private checkCollisions(): void {
-    if (this.gameState !== 'playing') return;
+  private handleObstacleCollision(obstacle: ObstacleEntity): void {
+    this.crashObstacle = obstacle;
     
-    // Only update the bounding box once per frame
-    const hoverboardMesh = this.hoverboard.getMesh();
-    this.hoverboardBox.setFromObject(hoverboardMesh);
+    // Play explosion sound effect
+    this.audio?.playSound('explosion');
     
-    // Check collisions with obstacles
-    const closeObstacles = this.obstacles.filter(obstacle => {
-      const obstacleZ = obstacle.getMesh().position.z;
-      // Only check obstacles within collision range (between -5 and 8)
-      return obstacleZ > -5 && obstacleZ < 8;
-    });
+    // Create explosion effect at hoverboard position
+    this.createExplosion();
     
-    // Check collision with each close obstacle
-    for (const obstacle of closeObstacles) {
-      if (obstacle.isObstacleActive()) {
-        const obstacleBox = obstacle.getBoundingBox();
-        
-        if (this.hoverboardBox.intersectsBox(obstacleBox)) {
-          // Collision detected!
-          this.handleObstacleCollision();
-          break;
-        }
-      }
+    // Offer a revive in player runs, or hold on for the revive a replay recorded
+    const replayRevives = this.replayPlayer?.hasAction(this.simulation.getTick(), 'revive') ?? false;
+    if (replayRevives || (!this.replayPlayer && this.simulation.canRevive())) {
+      this.reviveTimeLeft = replayRevives ? this.replayReviveDelay : this.reviveCountdown;
+      this.publishReviveOffer();
+      this.store.set(gameStateAtom, 'reviving');
+      return;
     }
     
-    // Check collisions with crystals
-    const closeCrystals = this.crystals.filter(crystal => {
-      const crystalZ = crystal.getMesh().position.z;
-      // Only check crystals within collision range (between -5 and 8)
-      return crystalZ > -5 && crystalZ < 8;
-    });
+    this.finishRun();
     
-    // Check collision with each close crystal
-    for (let i = closeCrystals.length - 1; i >= 0; i--) {
-      const crystal = closeCrystals[i];
-      if (crystal.isCrystalActive()) {
-        const crystalBox = crystal.getBoundingBox();
-        
-        if (this.hoverboardBox.intersectsBox(crystalBox)) {
-          // Crystal collected!
-          this.handleCrystalCollection(crystal);
-        }
-      }
-    }
+    // Set game state to game over
+    this.store.set(gameStateAtom, 'gameOver');
   }
   
   /**
-   * Handle collision with obstacle
+   * Add the crashed run to the history, bank its crystals, count its missions and keep its replay (player runs only)
    */
-  private handleObstacleCollision(): void {
-    // Set game state to game over
-    this.store.set(gameStateAtom, 'gameOver');
+  private finishRun(): void {
+    const obstacle = this.crashObstacle;
+    if (this.replayPlayer || !obstacle) return;
+    
+    const finalScore = this.store.get(finalScoreAtom);
+    
+    // Add the run to the history
+    recordRun({
+      date: new Date().toISOString(),
+      distance: Math.floor(this.simulation.getDistance()),
+      crystals: this.simulation.getCrystalsCollected(),
+      obstaclesPassed: this.simulation.getObstaclesPassed(),
+      score: finalScore,
+      maxSpeed: this.simulation.getMaxSpeed(),
+      duration: this.simulation.getTime(),
+      causeOfDeath: OBSTACLE_NAMES[obstacle.type],
+      difficulty: this.simulation.getConfig().difficulty,
+      laneCount: this.simulation.getConfig().laneCount,
+      adaptive: this.simulation.getConfig().adaptiveDifficulty,
+      beatSync: this.simulation.getConfig().beatSync,
+    });
     
-    // Stop obstacle and crystal spawning
-    this.obstacleSpawningActive = false;
-    this.crystalSpawningActive = false;
+    // Bank the crystals left over (after any revive) into the wallet and count the run towards the missions
+    bankCrystals(this.simulation.getCrystalCount());
+    recordMissions(this.missionTracker.getRunProgress());
     
-    // Play explosion sound effect
-    if (this.explosionSound) {
-      this.explosionSound.currentTime = 0;
-      this.explosionSound.play().catch(err => console.warn('Could not play explosion sound:', err));
+    // Keep the input log of player runs so they can be watched again
+    const replay = this.recorder.finish(this.simulation.getTick(), this.simulation.getDistance(), finalScore);
+    if (replay) {
+      saveReplay(replay);
     }
-    
-    // Create explosion effect at hoverboard position
-    this.createExplosion();
   }
   
   /**
-   * Handle collecting a crystal
+   * Count down the revive on offer - when time runs out the run ends (a replay takes its recorded revive)
    */
-  private handleCrystalCollection(crystal: Crystal): void {
-    // Get crystal position before deactivating
-    const crystalPosition = crystal.getMesh().position.clone();
-    
-    // Increase crystal count
-    const currentCrystalCount = this.store.get(crystalCountAtom);
-    this.store.set(crystalCountAtom, currentCrystalCount + 1);
-    
-    // Play crystal collection sound
-    if (this.crystalSound) {
-      // Create a new audio instance for each crystal collection
-      // This allows multiple sounds to play simultaneously
-      const crystalSoundInstance = new Audio(this.crystalSound.src);
-      crystalSoundInstance.volume = this.crystalSound.volume;
-      crystalSoundInstance.play().catch(err => console.warn('Could not play crystal sound:', err));
-      
-      // Clean up the audio element after it finishes playing
-      crystalSoundInstance.onended = () => {
-        crystalSoundInstance.src = '';
-      };
+  private updateReviveCountdown(step: number): void {
+    this.reviveTimeLeft -= step;
+    if (this.reviveTimeLeft > 0) {
+      this.publishReviveOffer();
+    } else if (this.replayPlayer) {
+      acceptRevive();
+    } else {
+      declineRevive();
+    }
+  }
+  
+  /**
+   * Push the revive on offer to the store, in whole seconds
+   */
+  private publishReviveOffer(): void {
+    const timeLeft = Math.ceil(this.reviveTimeLeft);
+    if (this.store.get(reviveOfferAtom)?.timeLeft !== timeLeft) {
+      this.store.set(reviveOfferAtom, { cost: this.simulation.getConfig().reviveCost, timeLeft });
+    }
+  }
+  
+  /**
+   * Put the board back on the track after a revive
+   */
+  private showRevive(): void {
+    this.crashObstacle = null;
+    this.stopExplosion();
+    this.hoverboard.getMesh().visible = true;
+    
+    // Cleared obstacles and spent crystals disappear right away
+    this.syncObstacles();
+    this.publishRunState();
+  }
+  
+  /**
+   * Push the run state (distance, score, crystals) to the store
+   */
+  private publishRunState(): void {
+    this.store.set(distanceAtom, Math.floor(this.simulation.getDistance()));
+    this.store.set(scoreAtom, this.simulation.getScore());
+    this.store.set(crystalCountAtom, this.simulation.getCrystalCount());
+    this.store.set(crystalScoreAtom, this.simulation.getCrystalScore());
+    this.store.set(multiplierBonusAtom, this.simulation.getMultiplierBonus());
+    this.store.set(nearMissesAtom, this.simulation.getNearMisses());
+    this.store.set(nearMissScoreAtom, this.simulation.getNearMissScore());
+    this.store.set(comboBonusAtom, this.simulation.getComboBonus());
+    this.publishPowerUps();
+    this.publishCombo();
+    
+    if (this.ghostSimulation) {
+      const delta = this.simulation.getDistance() - this.ghostSimulation.getDistance();
+      this.store.set(ghostDeltaAtom, Math.round(delta));
+    }
+  }
+  
+  /**
+   * Push the active power-ups to the store, rounded so the HUD isn't re-rendered every frame
+   */
+  private publishPowerUps(): void {
+    const activePowerUps = this.simulation.getActivePowerUps();
+    const rounded: ActivePowerUps = {};
+    for (const type of POWER_UP_TYPES) {
+      const remaining = activePowerUps[type];
+      if (remaining !== undefined) {
+        rounded[type] = Math.ceil(remaining * 10) / 10;
+      }
     }
     
-    // Create particle effect at crystal position
-    this.createCrystalParticles(crystalPosition);
-    
-    // Deactivate the crystal
-    crystal.setActive(false);
+    const serialized = JSON.stringify(rounded);
+    if (serialized !== this.publishedPowerUps) {
+      this.publishedPowerUps = serialized;
+      this.store.set(activePowerUpsAtom, rounded);
+    }
     
-    // Remove from active crystals list
-    const index = this.crystals.indexOf(crystal);
-    if (index !== -1) {
-      this.crystals.splice(index, 1);
+    this.hoverboard.setShieldVisible(this.simulation.isPowerUpActive('shield'));
+  }
+  
+  /**
+   * Push the combo to the store, rounded so the HUD isn't re-rendered every frame
+   */
+  private publishCombo(): void {
+    const simulation = this.simulation;
+    const combo: ComboState = {
+      level: simulation.getCombo(),
+      multiplier: simulation.getComboMultiplier(),
+      timeLeft: Math.ceil(simulation.getComboTimer() / simulation.getConfig().comboDecayTime * 20) / 20,
+    };
+    
+    const serialized = JSON.stringify(combo);
+    if (serialized !== this.publishedCombo) {
+      this.publishedCombo = serialized;
+      this.store.set(comboAtom, combo);
     }
   }
   
   /**
-   * Create lane markers to show the three lanes
+   * Play the crystal pickup sound
+   * @param combo Combo level the pickup brought the run to - each crystal in a combo rings a step higher
+   */
+  private playCrystalSound(combo: number = 0): void {
+    const step = Math.min(Math.max(combo - 1, 0), COMBO_PITCHES.length - 1);
+    this.audio?.playSound('crystal', { pitch: COMBO_PITCHES[step] });
+  }
+  
+  /**
+   * Create lane markers to show the lanes
    */
   private createLaneMarkers(): void {
     // Lane markers are now invisible - keeping the method for future reference
     // and to maintain the same structure of the code
     
-    // The lanes still functionally exist in the game at positions:
-    // -2.5, 0, 2.5 (same as HoverBoard.lanes)
+    // The lanes still functionally exist in the game at the positions given by
+    // getLanePositions for the run's lane count and width
   }
   
   /**
@@ -585,15 +686,16 @@ export class CyberpunkScene extends Scene {
     // Add click event listener to the document
     document.addEventListener('click', this.handleTouchClick);
     
-    // Add touch event listener for mobile devices
-    document.addEventListener('touchstart', this.handleTouchClick);
+    // Add touch event listeners for mobile devices (taps and swipes)
+    document.addEventListener('touchstart', this.handleTouchStart, { passive: false });
+    document.addEventListener('touchend', this.handleTouchEnd);
   }
   
   /**
-   * Handle touch or click input
-   * @param event Mouse or touch event
+   * Handle click input
+   * @param event Mouse event
    */
-  private handleTouchClick = (event: MouseEvent | TouchEvent): void => {
+  private handleTouchClick = (event: MouseEvent): void => {
     if (this.gameState !== 'playing') return;
     
     // Ignore this tap/click if it's the one that started the game
@@ -605,26 +707,101 @@ export class CyberpunkScene extends Scene {
     // Prevent default behavior to avoid scrolling or other unwanted actions
     event.preventDefault();
     
-    // Get the x coordinate of the click or touch
-    let clientX: number;
+    this.handleTap(event.clientX);
+  }
+  
+  /**
+   * Remember where a touch started so touchend can tell a swipe from a tap
+   * @param event Touch event
+   */
+  private handleTouchStart = (event: TouchEvent): void => {
+    if (this.gameState !== 'playing') return;
+    
+    // Prevent default behavior to avoid scrolling and the emulated click
+    event.preventDefault();
+    
+    const touch = event.touches[0];
+    this.touchStart = { x: touch.clientX, y: touch.clientY };
+  }
+  
+  /**
+   * Resolve a finished touch into a swipe or a tap
+   * @param event Touch event
+   */
+  private handleTouchEnd = (event: TouchEvent): void => {
+    if (this.gameState !== 'playing' || !this.touchStart) return;
     
-    if ('touches' in event) {
-      // Touch event
-      clientX = event.touches[0].clientX;
-    } else {
-      // Mouse event
-      clientX = event.clientX;
+    const touch = event.changedTouches[0];
+    const deltaX = touch.clientX - this.touchStart.x;
+    const deltaY = touch.clientY - this.touchStart.y;
+    this.touchStart = null;
+    
+    // Mostly vertical and long enough - treat as a swipe
+    if (Math.abs(deltaY) > this.swipeThreshold && Math.abs(deltaY) > Math.abs(deltaX)) {
+      this.pendingActions.push(deltaY < 0 ? 'jump' : 'duck');
+      return;
     }
     
+    // Mostly horizontal swipe - change lanes in the swipe direction
+    if (Math.abs(deltaX) > this.swipeThreshold) {
+      this.pendingActions.push(deltaX < 0 ? 'left' : 'right');
+      return;
+    }
+    
+    this.handleTap(touch.clientX);
+  }
+  
+  /**
+   * Change lanes based on which side of the screen was tapped
+   * @param clientX Horizontal position of the tap
+   */
+  private handleTap(clientX: number): void {
     // Get the width of the screen
     const screenWidth = window.innerWidth;
     const screenMiddle = screenWidth / 2;
     
     // Move left or right based on where the screen was touched/clicked
-    if (clientX < screenMiddle) {
-      this.hoverboard.moveLeft();
-    } else {
-      this.hoverboard.moveRight();
+    this.pendingActions.push(clientX < screenMiddle ? 'left' : 'right');
+  }
+  
+  
+  /**
+   * Apply touch/click actions queued since the last simulation step
+   */
+  private applyPendingActions(): void {
+    const actions = this.pendingActions;
+    this.pendingActions = [];
+    
+    if (this.gameState !== 'playing') return;
+    
+    for (const action of actions) {
+      this.applyAction(action);
+    }
+  }
+  
+  /**
+   * Apply a player action to the simulation, logging it for the replay if it took effect
+   */
+  private applyAction(action: BoardAction): void {
+    const tick = this.simulation.getTick();
+    if (this.simulation.applyAction(action)) {
+      this.recorder.record(tick, action);
+    }
+  }
+  
+  /**
+   * Apply the actions recorded for the upcoming step of the replay being watched
+   */
+  private applyReplayActions(replayPlayer: ReplayPlayer): void {
+    // Player input is ignored while watching
+    this.pendingActions = [];
+    
+    if (this.gameState !== 'playing') return;
+    
+    for (const action of replayPlayer.getActions(this.simulation.getTick())) {
+      if (this.simulation.applyAction(action) && action === 'revive') {
+        this.showRevive();
+      }
     }
   }
   
@@ -636,77 +813,204 @@ export class CyberpunkScene extends Scene {
     
     // Left movement - left arrow or A
     if (this.keyStates['ArrowLeft'] || this.keyStates['KeyA']) {
-      this.hoverboard.moveLeft();
+      this.applyAction('left');
     }
     
     // Right movement - right arrow or D
     if (this.keyStates['ArrowRight'] || this.keyStates['KeyD']) {
-      this.hoverboard.moveRight();
+      this.applyAction('right');
+    }
+    
+    // Jump - up arrow or W
+    if (this.keyStates['ArrowUp'] || this.keyStates['KeyW']) {
+      this.applyAction('jump');
     }
+    
+    // Duck - down arrow or S. While held, the duck is only renewed as it's about to run out,
+    // so the replay logs one duck per renewal instead of one every step
+    const duckKeyHeld = !!(this.keyStates['ArrowDown'] || this.keyStates['KeyS']);
+    if (duckKeyHeld && (!this.duckKeyHeld || this.simulation.getBoard().duckTimer <= this.fixedStep)) {
+      this.applyAction('duck');
+    }
+    this.duckKeyHeld = duckKeyHeld;
   }
   
   /**
-   * Update the scene elements to create illusion of forward movement
-   * @param deltaTime Time since last frame
+   * Get the tuning for a player run: the picked lane count and difficulty, plus adaptive difficulty
+   * and beat sync if they're on
    */
-  private updateSceneMovement(deltaTime: number): void {
-    if (this.gameState !== 'playing') return;
-    
-    // Get the speed from hoverboard
-    const distance = this.hoverboard.getDistance();
-    // Make speed increase more aggressively over time
-    const baseSpeed = 16;
-    const maxAdditionalSpeed = 50; // Increased from 40 for higher top speed
-    const accelerationFactor = 100; // Reduced from 150 for faster acceleration
+  private createRunConfig(): SimulationConfig {
+    const difficulty = this.store.get(difficultyAtom);
+    const laneCount = this.store.get(laneCountAtom);
+    let config = applyDifficulty(difficulty, { ...DEFAULT_SIMULATION_CONFIG, laneCount });
+    
+    if (this.store.get(adaptiveAtom)) {
+      // Start with more help when the latest runs on this difficulty and track ended early
+      const distances = this.store.get(runHistoryAtom)
+        .filter(run => run.difficulty === difficulty && run.laneCount === laneCount)
+        .map(run => run.distance);
+      config = {
+        ...config,
+        adaptiveDifficulty: true,
+        startingAssist: getStartingAssist(distances, config.assistTargetDistance),
+      };
+    }
     
-    // Add exponential acceleration for progressively faster speed over time
-    const linearAcceleration = distance / accelerationFactor;
-    const exponentialFactor = Math.pow(distance / 1000, 1.5) * 5; // Exponential growth with distance
-    const additionalSpeed = Math.min(linearAcceleration + exponentialFactor, maxAdditionalSpeed);
+    // Time the spawns (and laser gates) to the music once its beat has been detected
+    const beatGrid = this.audio?.getBeatGrid();
+    if (this.store.get(beatSyncAtom) && beatGrid) {
+      config = {
+        ...config,
+        beatSync: true,
+        musicBpm: beatGrid.bpm,
+        musicFirstBeat: beatGrid.firstBeat,
+        musicLength: beatGrid.length,
+      };
+    }
     
-    const speed = baseSpeed + additionalSpeed;
+    return config;
+  }
+  
+  /**
+   * Start racing against the ghost of the best run (if there is one)
+   */
+  private startGhost(): void {
+    // Only race runs from the same track layout and difficulty
+    const bestReplay = this.store.get(bestReplayAtom);
+    const config = this.simulation.getConfig();
+    if (!bestReplay || bestReplay.config.laneCount !== config.laneCount || bestReplay.config.difficulty !== config.difficulty) {
+      this.stopGhost();
+      return;
+    }
     
-    // Store speed in the hoverboard for distance calculation
-    this.hoverboard.setSpeed(speed);
+    this.ghostPlayer = new ReplayPlayer(bestReplay);
+    this.ghostSimulation = new GameSimulation(bestReplay.config);
+    this.ghostSimulation.start(bestReplay.seed, bestReplay.config);
+    this.ghostBoard.reset(this.ghostSimulation.getBoard());
+    this.ghostBoard.setOffsetZ(0);
+    this.ghostBoard.getMesh().visible = true;
+  }
+  
+  /**
+   * Remove the ghost
+   */
+  private stopGhost(): void {
+    this.ghostSimulation = null;
+    this.ghostPlayer = null;
+    this.ghostBoard.getMesh().visible = false;
+    this.store.set(ghostDeltaAtom, null);
+  }
+  
+  /**
+   * Advance the ghost by one step with the input recorded for it
+   */
+  private stepGhost(step: number): void {
+    const ghost = this.ghostSimulation;
+    if (!ghost || !this.ghostPlayer || this.gameState !== 'playing') return;
     
-    // Update grid texture scrolling (instead of moving the grid)
-    this.grid.update(deltaTime, speed);
+    // Apply the recorded input (this includes a revive right after a crash)
+    for (const action of this.ghostPlayer.getActions(ghost.getTick())) {
+      ghost.applyAction(action);
+    }
     
-    // Update obstacles with the same speed
-    this.updateObstacles(deltaTime, speed);
+    if (ghost.isRunning()) {
+      ghost.step(step);
+    }
     
-    // Update crystals with the same speed
-    this.updateCrystals(deltaTime, speed);
+    // The ghost vanishes where it crashed (for good if the best run ended there)
+    this.ghostBoard.getMesh().visible = ghost.isRunning();
     
-    // Mountains and sun remain stationary - no movement code for these objects
+    // Place the ghost ahead of or behind the player by the distance between them
+    const lead = ghost.getDistance() - this.simulation.getDistance();
+    this.ghostBoard.setOffsetZ(-Math.min(lead, this.maxGhostOffset));
+    this.ghostBoard.setState(ghost.getBoard());
   }
   
   /**
-   * Update the distance in the store
+   * Advance the game simulation by one fixed step
+   * Movement, spawning timers and collisions all run in the simulation so gameplay is frame-rate independent
    */
-  private updateDistance(): void {
+  public fixedUpdate(step: number): void {
+    // Everything holds still while paused - the run picks up on the same step it stopped on
+    if (this.gameState === 'paused') return;
+    
+    this.gameTime += step;
+    this.fixedStep = step;
+    
+    // The run holds still while a revive is on offer - only the countdown and effects carry on
+    if (this.gameState === 'reviving') {
+      this.updateReviveCountdown(step);
+      return;
+    }
+    
+    // Handle queued touch/click input and held keys, or the recorded input of a replay
+    if (this.replayPlayer) {
+      this.applyReplayActions(this.replayPlayer);
+    } else {
+      this.applyPendingActions();
+      this.handleKeyboardInput();
+    }
+    
+    // Advance the simulation and the ghost
+    this.simulation.step(step);
+    this.stepGhost(step);
+    
+    // Update distance, score and crystal counters, and the run's mission progress
     if (this.gameState === 'playing') {
-      const distance = this.hoverboard.getDistance();
-      this.store.set(distanceAtom, Math.floor(distance));
+      this.publishRunState();
+      const board = this.simulation.getBoard();
+      this.missionTracker.update(this.simulation.getDistance(), this.simulation.getTime(), board.lane);
     }
+    
+    // React to pickups and crashes
+    this.handleSimulationEvents();
+    
+    // Move the meshes to the new simulation state
+    this.syncObstacles();
+    this.syncCrystals();
+    this.syncPowerUps();
+    this.hoverboard.setState(this.simulation.getBoard());
   }
   
   /**
-   * Update the scene (called every frame)
+   * Update the scene visuals (called every rendered frame)
    */
-  public update(): void {
-    const deltaTime = this.clock.getDelta();
-    this.gameTime += deltaTime;
+  public update(deltaTime: number, alpha: number): void {
+    // Freeze the frame while paused
+    if (this.gameState === 'paused') return;
+    
+    // Bend the track for the distance travelled and bank the camera into the turn
+    const curve = this.trackCurve;
+    curve.update(this.simulation.getDistance());
+    this.camera.rotation.z = -curve.getTurnAmount() * this.cameraBank;
+    
+    // Place moving objects between the last two simulation steps
+    for (const obstacle of this.obstacles.values()) {
+      obstacle.interpolate(alpha, curve);
+    }
+    for (const crystal of this.crystals.values()) {
+      crystal.update(deltaTime, alpha, curve);
+    }
+    for (const powerUp of this.powerUps.values()) {
+      powerUp.update(deltaTime, alpha, curve);
+    }
     
-    // Handle keyboard input
-    this.handleKeyboardInput();
+    // Keep the music on the beat the run is timed to (it carries on while a revive is on offer)
+    const config = this.simulation.getConfig();
+    if (this.gameState === 'playing' && config.beatSync) {
+      const time = this.simulation.getTime();
+      this.audio?.syncMusic(config.musicLength > 0 ? time % config.musicLength : time);
+    }
     
-    // Update scene movement
-    this.updateSceneMovement(deltaTime);
+    // Pulse the sun, grid and board with the music
+    const levels = this.audio?.getMusicLevels() ?? { bass: 0, mids: 0 };
+    this.sun.setBass(levels.bass);
+    this.grid.setBass(levels.bass);
+    this.hoverboard.setMids(levels.mids);
     
-    // Check for collisions (only if not already exploding)
-    if (!this.isExploding) {
-      this.checkCollisions();
+    // Update grid texture scrolling (instead of moving the grid)
+    if (this.gameState === 'playing') {
+      this.grid.update(deltaTime, this.simulation.getSpeed());
     }
     
     // Update explosion effect if active
@@ -717,17 +1021,26 @@ export class CyberpunkScene extends Scene {
     // Update crystal particles
     this.updateCrystalParticles(deltaTime);
     
-    // Update distance counter
-    this.updateDistance();
-    
     // Mountains
     this.mountains.update(deltaTime);
     
     // Update sun
     this.sun.update(deltaTime);
     
-    // Update hoverboard
-    this.hoverboard.update(deltaTime);
+    // Keep the backdrop at the far end of the track as it bends
+    this.placeBackdrop();
+    
+    // Blink the board while it can't be hit after a revive
+    if (this.gameState === 'playing') {
+      const invulnerableTime = this.simulation.getInvulnerableTime();
+      this.hoverboard.getMesh().visible = invulnerableTime <= 0 || Math.floor(invulnerableTime * 8) % 2 === 0;
+    }
+    
+    // Update hoverboard and ghost
+    this.hoverboard.update(deltaTime, alpha, curve);
+    if (this.ghostSimulation) {
+      this.ghostBoard.update(deltaTime, alpha, curve);
+    }
   }
   
   /**
@@ -742,94 +1055,144 @@ export class CyberpunkScene extends Scene {
    * Handle game state changes
    */
   private handleGameStateChange(newState: GameState): void {
+    const previousState = this.gameState;
     this.gameState = newState;
     
-    if (newState === 'playing') {
-      // Set flag to ignore the next tap/click (the one that started the game)
-      this.ignoreNextTap = true;
+    if (newState === 'paused') {
+      // Forget held keys - their keyup may never arrive if the window lost focus
+      this.keyStates = {};
+      this.pendingActions = [];
       
-      // Reset game variables
-      this.gameTime = 0;
-      this.nextObstacleTime = 4.0; // Start first obstacle after 4 seconds for better player ramp-up
-      this.nextCrystalTime = 2.0; // Start first crystal after 2 seconds
-      this.obstacleSpawningActive = true;
-      this.crystalSpawningActive = true;
+      this.audio?.pauseMusic();
+    } else if (newState === 'playing' && previousState === 'paused') {
+      // Resuming - carry on with the same run
+      this.audio?.playMusic();
+    } else if (newState === 'playing' && previousState === 'reviving') {
+      // The music waited with the run, so it carries on in step with it
+      this.audio?.playMusic();
       
-      // Clear existing obstacles
-      for (const obstacle of this.obstacles) {
-        obstacle.setActive(false);
+      // Revived - a replay revives from its own log on the next step
+      if (!this.replayPlayer) {
+        this.applyAction('revive');
+        this.showRevive();
       }
-      this.obstacles = [];
+    } else if (newState === 'playing') {
+      // Set flag to ignore the next tap/click (the one that started the game)
+      this.ignoreNextTap = true;
       
-      // Clear existing crystals
-      for (const crystal of this.crystals) {
-        crystal.setActive(false);
+      const replay = this.store.get(activeReplayAtom);
+      if (replay) {
+        // Watching a replay - rerun the recorded seed and tuning with the recorded input
+        this.replayPlayer = new ReplayPlayer(replay);
+        this.simulation.start(replay.seed, replay.config);
+        this.store.set(runSeedAtom, replay.seed);
+      } else {
+        // Seed the run - a fixed seed from the URL replays the same run
+        const seed = this.store.get(fixedSeedAtom) ?? SeededRandom.randomSeed();
+        const config = this.createRunConfig();
+        this.replayPlayer = null;
+        this.simulation.start(seed, config);
+        this.recorder.start(seed, config, this.fixedStep);
+        this.store.set(runSeedAtom, seed);
       }
-      this.crystals = [];
+      this.missionTracker.start();
       
-      // Make sure all pool objects are properly hidden
-      for (const obstacle of this.obstaclePool) {
-        obstacle.setActive(false);
-      }
+      // Keep every lane of the track in view
+      this.fitCameraToTrack();
       
-      for (const crystal of this.crystalPool) {
-        crystal.setActive(false);
+      // Race the best run's ghost in player runs only
+      if (this.replayPlayer) {
+        this.stopGhost();
+      } else {
+        this.startGhost();
       }
       
+      // Reset game variables
+      this.gameTime = 0;
+      this.pendingActions = [];
+      
+      // Start with an empty track, no active effects and no bonus points
+      this.clearViews();
+      this.publishRunState();
+      
       // Make sure the hoverboard is visible (in case it was hidden by an explosion)
       this.hoverboard.getMesh().visible = true;
-      
-      // Start hoverboard movement
-      this.hoverboard.startMoving();
+      this.hoverboard.reset(this.simulation.getBoard());
       
       // Start playing the music when game starts
-      if (this.backgroundMusic) {
-        this.backgroundMusic.play().catch(err => console.warn('Could not play audio:', err));
-      }
+      // When laser gates blink on the beat, start the track from the top so the beat lines up with the run
+      this.audio?.playMusic(this.simulation.getConfig().musicBpm !== null);
+    } else if (newState === 'reviving') {
+      // Forget held keys so the board doesn't jump off in some direction after a revive
+      this.keyStates = {};
+      this.pendingActions = [];
+      
+      // Hold the music while the player decides, as the run is held - a beat-synced run picks up on the same beat
+      this.audio?.pauseMusic();
     } else if (newState === 'gameOver') {
-      // Stop hoverboard movement
-      this.hoverboard.stopMoving();
+      // The revive was turned down (or ran out) - the run is over for good
+      if (previousState === 'reviving') {
+        this.finishRun();
+        
+        // Carry on with the music behind the game over screen, as after any other crash
+        this.audio?.playMusic();
+      }
       
-      // Stop obstacle and crystal spawning
-      this.obstacleSpawningActive = false;
-      this.crystalSpawningActive = false;
+      // Stop the run - active effects end with it
+      this.simulation.stop();
+      this.publishPowerUps();
+    } else if (newState === 'idle') {
+      // Back at the menu - clear out a run that was quit from the pause menu
+      // (this also stops the ghost, which only rides along during a run)
+      if (previousState === 'paused') {
+        this.resetGame();
+      } else {
+        this.stopGhost();
+      }
     }
   }
   
+  /**
+   * Move the sun and mountains with the far end of the track, so the track always runs into them
+   */
+  private placeBackdrop(): void {
+    const sunOffset = this.trackCurve.getOffset(this.sunInitialZ, this.backdropOffset);
+    this.sun.getMesh().position.set(sunOffset.x, 15 + sunOffset.y, this.sunInitialZ);
+    
+    const mountainsOffset = this.trackCurve.getOffset(this.mountainsInitialZ, this.backdropOffset);
+    this.mountains.getMesh().position.set(mountainsOffset.x, -5 + mountainsOffset.y, this.mountainsInitialZ);
+  }
+  
+  /**
+   * Pull the camera back and up on tracks wider than the default so the outer lanes stay in view
+   */
+  private fitCameraToTrack(): void {
+    const extraLanes = this.simulation.getConfig().laneCount - DEFAULT_SIMULATION_CONFIG.laneCount;
+    this.camera.position.set(0, 3 + extraLanes * 0.5, 10 + extraLanes * 1.5);
+  }
+  
   /**
    * Reset the scene for a new game
    */
   public resetGame(): void {
-    // Reset grid texture offset
+    // Reset grid texture offset and straighten the track
     this.grid.resetTextureOffset();
+    this.trackCurve.reset();
+    this.camera.rotation.z = 0;
     
-    // Reset hoverboard position and state
-    if (this.hoverboard) {
-      this.hoverboard.reset();
-      // Ensure hoverboard is visible - important after an explosion
-      this.hoverboard.getMesh().visible = true;
-    }
-    
-    // Clear obstacles
-    for (const obstacle of this.obstacles) {
-      obstacle.setActive(false);
-    }
-    this.obstacles = [];
+    // Reset the simulation and put the hoverboard back at the start
+    this.simulation.reset();
+    this.stopGhost();
+    this.hoverboard.reset(this.simulation.getBoard());
+    // Ensure hoverboard is visible - important after an explosion
+    this.hoverboard.getMesh().visible = true;
     
-    // Clear crystals
-    for (const crystal of this.crystals) {
-      crystal.setActive(false);
-    }
-    this.crystals = [];
+    // Clear obstacles, crystals, power-ups and their effects
+    this.clearViews();
+    this.publishPowerUps();
     
     // Make sure explosion state is reset
-    this.isExploding = false;
-    if (this.explosionParticles) {
-      this.explosionParticles.visible = false;
-      if (this.explosionParticles.parent) {
-        this.explosionParticles.parent.remove(this.explosionParticles);
-      }
-    }
+    this.stopExplosion();
   }
   
   /**
@@ -842,7 +1205,8 @@ export class CyberpunkScene extends Scene {
     
     // Remove touch and click event listeners
     document.removeEventListener('click', this.handleTouchClick);
-    document.removeEventListener('touchstart', this.handleTouchClick);
+    document.removeEventListener('touchstart', this.handleTouchStart);
+    document.removeEventListener('touchend', this.handleTouchEnd);
     
     // Dispose grid
     this.grid.dispose();
@@ -853,8 +1217,9 @@ export class CyberpunkScene extends Scene {
     // Dispose sun
     this.sun.dispose();
     
-    // Dispose hoverboard
+    // Dispose hoverboard and ghost
     this.hoverboard.dispose();
+    this.ghostBoard.dispose();
     
     // Dispose obstacles
     for (const obstacle of this.obstaclePool) {
@@ -866,22 +1231,15 @@ export class CyberpunkScene extends Scene {
       crystal.dispose();
     }
     
-    // Stop and remove music
-    if (this.backgroundMusic) {
-      this.backgroundMusic.pause();
-      this.backgroundMusic.src = '';
+    // Dispose power-ups
+    for (const powerUp of this.powerUpPool) {
+      powerUp.dispose();
     }
     
-    // Clean up crystal sound
-    if (this.crystalSound) {
-      this.crystalSound.pause();
-      this.crystalSound.src = '';
-    }
-    
-    // Clean up explosion sound
-    if (this.explosionSound) {
-      this.explosionSound.pause();
-      this.explosionSound.src = '';
+    // Stop the music and sound effects and close the audio context
+    if (this.audio) {
+      this.audio.dispose();
+      this.audio = null;
     }
     
     // Dispose of particle systems
@@ -894,7 +1252,8 @@ export class CyberpunkScene extends Scene {
     }
     this.crystalParticles = [];
   }
-
+  
+  
   /**
    * Initialize explosion particle system for collision effect
    */
@@ -942,7 +1301,7 @@ export class CyberpunkScene extends Scene {
     this.explosionParticles = new THREE.Points(this.explosionGeometry, this.explosionMaterial);
     this.explosionParticles.visible = false;
   }
-
+  
   /**
    * Create crystal particles at the specified position
    */
@@ -993,12 +1352,8 @@ export class CyberpunkScene extends Scene {
     const particles = new THREE.Points(geometry, material);
     this.scene.add(particles);
     
-    // Calculate current game speed - use the same logic as in updateSceneMovement
-    const distance = this.hoverboard.getDistance();
-    const baseSpeed = 16;
-    const maxAdditionalSpeed = 40;
-    const accelerationFactor = 150;
-    const currentSpeed = baseSpeed + Math.min(distance / accelerationFactor, maxAdditionalSpeed);
+    // Particles keep drifting with the current game speed
+    const currentSpeed = this.simulation.getSpeed();
     
     // Add to array for tracking with creation time and speed
     this.crystalParticles.push({
@@ -1008,7 +1363,7 @@ export class CyberpunkScene extends Scene {
       speed: currentSpeed // Store current game speed
     });
   }
-
+  
   /**
    * Create explosion effect at the hoverboard's position
    */
@@ -1050,7 +1405,20 @@ export class CyberpunkScene extends Scene {
     this.isExploding = true;
     this.explosionStartTime = this.gameTime;
   }
-
+  
+  /**
+   * Remove the explosion effect
+   */
+  private stopExplosion(): void {
+    this.isExploding = false;
+    if (this.explosionParticles) {
+      this.explosionParticles.visible = false;
+      if (this.explosionParticles.parent) {
+        this.explosionParticles.parent.remove(this.explosionParticles);
+      }
+    }
+  }
+  
   /**
    * Update explosion particles
    */
@@ -1062,11 +1430,7 @@ export class CyberpunkScene extends Scene {
     
     if (progress >= 1.0) {
       // Explosion finished
-      this.isExploding = false;
-      this.explosionParticles.visible = false;
-      if (this.explosionParticles.parent) {
-        this.explosionParticles.parent.remove(this.explosionParticles);
-      }
+      this.stopExplosion();
       return;
     }
     
@@ -1087,7 +1451,7 @@ export class CyberpunkScene extends Scene {
     // Update positions
     this.explosionGeometry.attributes.position.needsUpdate = true;
   }
-
+  
   /**
    * Update crystal particles
    */
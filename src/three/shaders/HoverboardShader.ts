@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import { BoardSkin } from '../objects/BoardSkins';
 
 /**
  * Shader for the hoverboard effect
@@ -17,7 +18,8 @@ export class HoverboardShader {
       fresnelBias: { value: 0.1 },
       fresnelScale: { value: 1.0 },
       fresnelPower: { value: 2.0 },
-      tilt: { value: 0.0 }
+      tilt: { value: 0.0 },
+      opacity: { value: 1.0 }
     };
 
     return new THREE.ShaderMaterial({
@@ -53,6 +55,34 @@ export class HoverboardShader {
     }
   }
 
+  /**
+   * Set the board opacity (below 1 renders it translucent, e.g. for a ghost)
+   * @param material Shader material
+   * @param opacity Opacity from 0 to 1
+   */
+  public static setOpacity(material: THREE.ShaderMaterial, opacity: number): void {
+    if (material.uniforms) {
+      material.uniforms.opacity.value = opacity;
+      material.transparent = opacity < 1;
+      material.depthWrite = opacity >= 1;
+    }
+  }
+
+  /**
+   * Apply a skin's colors and fresnel reflection
+   * @param material Shader material
+   * @param skin Skin to apply
+   */
+  public static setSkin(material: THREE.ShaderMaterial, skin: BoardSkin): void {
+    if (material.uniforms) {
+      material.uniforms.colorA.value.setHex(skin.colorA);
+      material.uniforms.colorB.value.setHex(skin.colorB);
+      material.uniforms.fresnelBias.value = skin.fresnelBias;
+      material.uniforms.fresnelScale.value = skin.fresnelScale;
+      material.uniforms.fresnelPower.value = skin.fresnelPower;
+    }
+  }
+
   /**
    * Set environment map for reflection
    * @param material Shader material
@@ -112,6 +142,7 @@ export class HoverboardShader {
     uniform float fresnelBias;
     uniform float fresnelScale;
     uniform float fresnelPower;
+    uniform float opacity;
     
     varying vec3 vPosition;
     varying vec3 vNormal;
@@ -148,7 +179,7 @@ export class HoverboardShader {
       float edge = 1.0 - abs(dot(vNormal, viewDir));
       finalColor += edge * colorA * 0.5;
       
-      gl_FragColor = vec4(finalColor, 1.0);
+      gl_FragColor = vec4(finalColor, opacity);
     }
   `;
 } 
\ No newline at end of file
@@ -11,6 +11,7 @@ export class SunShader {
     return new THREE.ShaderMaterial({
       uniforms: {
         time: { value: 0.0 },
+        bass: { value: 0.0 },
       },
       vertexShader: this.vertexShader,
       fragmentShader: this.fragmentShader,
@@ -23,9 +24,11 @@ export class SunShader {
    * Update shader uniforms
    * @param material Shader material
    * @param time Current time
+   * @param bass Bass level of the music (0-1)
    */
-  public static update(material: THREE.ShaderMaterial, time: number): void {
+  public static update(material: THREE.ShaderMaterial, time: number, bass: number = 0): void {
     material.uniforms.time.value = time;
+    material.uniforms.bass.value = bass;
   }
 
   private static vertexShader = `
@@ -38,6 +41,7 @@ export class SunShader {
 
   private static fragmentShader = `
     uniform float time;
+    uniform float bass;
     varying vec2 vUv;
     
     vec3 purple = vec3(0.5, 0.0, 0.8);
@@ -55,13 +59,13 @@ export class SunShader {
         color = mix(pink, blue, (y - 0.5) * 2.0);
       }
       
-      // Create glow effect
+      // Create glow effect, flaring up with the bass
       float glow = 0.5 + 0.5 * sin(time * 0.5);
-      color = mix(color, color * 1.5, glow * 0.3);
+      color = mix(color, color * 1.5, glow * 0.3 + bass * 0.5);
       
-      // Add scan lines
+      // Add scan lines - they stand out more on every bass hit
       if (mod(gl_FragCoord.y * 0.5, 2.0) < 1.0) {
-        color *= 0.9;
+        color *= 0.9 - bass * 0.3;
       }
       
       // Apply gradient falloff for sun shape
@@ -0,0 +1,117 @@
+import { SimulationConfig } from './SimulationConfig';
+
+// How many of the latest runs decide the assist a run starts with
+const RECENT_RUNS = 5;
+
+// Assist for a player without any runs yet
+const FIRST_RUN_ASSIST = 0.5;
+
+/**
+ * Get the assist a run starts with from how far the latest runs got
+ * Runs that ended well short of the target distance start the next one with more assist
+ * @param distances Distances of finished runs, oldest first
+ * @param targetDistance Distance a run should comfortably reach
+ */
+export function getStartingAssist(distances: number[], targetDistance: number): number {
+  const recent = distances.slice(-RECENT_RUNS);
+  if (recent.length === 0) return FIRST_RUN_ASSIST;
+  
+  const reached = recent.reduce((total, distance) => total + Math.min(distance / targetDistance, 1), 0) / recent.length;
+  return 1 - reached;
+}
+
+/**
+ * Eases the difficulty curve for a player who is struggling, and takes the help away again as they get better
+ *
+ * The assist (0 = none, 1 = full) rises with near misses and late dodges and falls a little with
+ * every obstacle passed. It only moves towards that target gradually so the speed never jumps.
+ * Everything it reacts to comes from the simulation itself, so replays stay deterministic.
+ */
+export class AdaptiveDifficulty {
+  private config: SimulationConfig;
+  private assist: number = 0;
+  private target: number = 0;
+  
+  constructor(config: SimulationConfig) {
+    this.config = config;
+    this.reset(config);
+  }
+  
+  /**
+   * Start over for a new run
+   */
+  public reset(config: SimulationConfig): void {
+    this.config = config;
+    this.assist = config.adaptiveDifficulty ? config.startingAssist : 0;
+    this.target = this.assist;
+  }
+  
+  /**
+   * Move the assist towards its target
+   */
+  public update(deltaTime: number): void {
+    const change = this.config.assistChangeRate * deltaTime;
+    this.assist += Math.max(Math.min(this.target - this.assist, change), -change);
+  }
+  
+  /**
+   * A wall barely missed the board
+   */
+  public onNearMiss(): void {
+    this.nudge(this.config.nearMissAssist);
+  }
+  
+  /**
+   * The board left a lane that was about to be blocked
+   * @param timeToImpact Time the wall still needed to reach the board (seconds)
+   */
+  public onDodge(timeToImpact: number): void {
+    const lateness = 1 - timeToImpact / this.config.comfortableDodgeTime;
+    if (lateness > 0) {
+      this.nudge(this.config.lateDodgeAssist * lateness);
+    }
+  }
+  
+  /**
+   * An obstacle made it past the board
+   */
+  public onObstaclePassed(): void {
+    this.nudge(-this.config.cleanPassAssist);
+  }
+  
+  /**
+   * Move the target, if adaptive difficulty is on
+   */
+  private nudge(amount: number): void {
+    if (!this.config.adaptiveDifficulty) return;
+    this.target = Math.min(Math.max(this.target + amount, 0), 1);
+  }
+  
+  /**
+   * Get the current assist (0-1)
+   */
+  public getAssist(): number {
+    return this.assist;
+  }
+  
+  /**
+   * Get how much of the speed gained along the run to keep
+   */
+  public getSpeedScale(): number {
+    return 1 - this.assist * this.config.assistSpeedRelief;
+  }
+  
+  /**
+   * Get how far along its ramp the obstacle spacing should be, out of how far the distance alone puts it
+   */
+  public getRampScale(): number {
+    return 1 - this.assist;
+  }
+  
+  /**
+   * Get the extra time to leave between obstacle patterns (seconds)
+   */
+  public getExtraSpacing(): number {
+    return this.assist * this.config.assistSpacing;
+  }
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { getObstacleBoxes } from './Collision';
+import { getLanePositions } from './SimulationConfig';
+import { ObstacleEntity, ObstacleType } from './SimulationTypes';
+
+function createObstacle(type: ObstacleType, lanes: readonly number[], lane: number = 1): ObstacleEntity {
+  return { id: 1, type, lane, x: lanes[lane], previousX: lanes[lane], z: -20, previousZ: -20 };
+}
+
+describe('getObstacleBoxes', () => {
+  it('keeps the open lane of a double wall open', () => {
+    const lanes = getLanePositions({ laneCount: 3, laneWidth: 2.5 });
+    const boxes = getObstacleBoxes(createObstacle(ObstacleType.DOUBLE_WALL, lanes), lanes, 2.5);
+    
+    expect(boxes).toHaveLength(2);
+    for (const box of boxes) {
+      expect(box.minX > lanes[1] || box.maxX < lanes[1]).toBe(true);
+    }
+  });
+  
+  it('scales obstacle widths with the lane width', () => {
+    for (const type of [ObstacleType.WALL, ObstacleType.DOUBLE_WALL, ObstacleType.LASER_GATE, ObstacleType.OVERHEAD_BEAM]) {
+      const narrowLanes = getLanePositions({ laneCount: 3, laneWidth: 2.5 });
+      const wideLanes = getLanePositions({ laneCount: 3, laneWidth: 5 });
+      const narrow = getObstacleBoxes(createObstacle(type, narrowLanes), narrowLanes, 2.5);
+      const wide = getObstacleBoxes(createObstacle(type, wideLanes), wideLanes, 5);
+      
+      narrow.forEach((box, index) => {
+        expect(wide[index].maxX - wide[index].minX).toBeCloseTo((box.maxX - box.minX) * 2);
+      });
+    }
+  });
+  
+  it('never reaches into the next lane', () => {
+    for (const laneWidth of [2, 2.5, 4]) {
+      const lanes = getLanePositions({ laneCount: 3, laneWidth });
+      const [wall] = getObstacleBoxes(createObstacle(ObstacleType.WALL, lanes, 0), lanes, laneWidth);
+      expect(wall.maxX).toBeLessThan(lanes[1]);
+    }
+  });
+});
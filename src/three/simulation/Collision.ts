@@ -0,0 +1,162 @@
+import { BoardState, ObstacleEntity, ObstacleType } from './SimulationTypes';
+
+/**
+ * Axis-aligned bounding box in track space
+ */
+export interface Box {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+  minZ: number;
+  maxZ: number;
+}
+
+// Collision volumes - these should match the meshes built by the renderer objects
+const BOARD_HALF_WIDTH = 0.45;
+const BOARD_HALF_LENGTH = 1.2;
+const BOARD_BELOW = 0.15; // Hover glow underneath the board
+const BOARD_ABOVE = 0.06;
+const WALL_HALF_WIDTH = 1.24; // Edge frame of a single wall
+const DOUBLE_WALL_HALF_WIDTH = 1.0075; // Edge frame of each double wall segment
+const WALL_HEIGHT = 3.05;
+const LOW_BARRIER_HEIGHT = 1.04;
+const BEAM_UNDERSIDE = 0.57;
+const LASER_GATE_HALF_WIDTH = 1.1; // Between the gate's posts
+const PICKUP_HALF_SIZE = 0.7;
+const PICKUP_HEIGHT = 1.2;
+const OBSTACLE_BEHIND = 0.2; // Depth of every obstacle behind its z
+const OBSTACLE_AHEAD = 0.125; // Depth of every obstacle in front of its z
+
+// Lane width the obstacle volumes above are sized for - on other layouts they scale with the lanes
+const BASE_LANE_WIDTH = 2.5;
+
+/**
+ * Check if two boxes overlap
+ */
+export function boxesIntersect(a: Box, b: Box): boolean {
+  return a.minX <= b.maxX && a.maxX >= b.minX &&
+    a.minY <= b.maxY && a.maxY >= b.minY &&
+    a.minZ <= b.maxZ && a.maxZ >= b.minZ;
+}
+
+/**
+ * Get the sideways distance between two boxes (0 if they overlap sideways)
+ */
+export function getLateralGap(a: Box, b: Box): number {
+  return Math.max(b.minX - a.maxX, a.minX - b.maxX, 0);
+}
+
+/**
+ * Get the board's collision box
+ * The box is squashed while ducking so the board can slip under overhead obstacles
+ */
+export function getBoardBox(board: BoardState, boardZ: number): Box {
+  const height = board.hoverHeight + board.jumpHeight;
+  const box: Box = {
+    minX: board.x - BOARD_HALF_WIDTH,
+    maxX: board.x + BOARD_HALF_WIDTH,
+    minY: height - BOARD_BELOW,
+    maxY: height + BOARD_ABOVE,
+    minZ: boardZ - BOARD_HALF_LENGTH,
+    maxZ: boardZ + BOARD_HALF_LENGTH,
+  };
+  
+  if (isDucking(board)) {
+    // Keep only the lower part of the board and trim the sides slightly
+    box.maxY = box.minY + (box.maxY - box.minY) * 0.5;
+    box.minX += 0.1;
+    box.maxX -= 0.1;
+  }
+  
+  return box;
+}
+
+/**
+ * Check if the board is ducking (a duck in mid-air only counts once it lands)
+ */
+export function isDucking(board: BoardState): boolean {
+  return board.duckTimer > 0 && !board.airborne;
+}
+
+/**
+ * Get how much wider obstacles are than on the standard track
+ * @param laneWidth Distance between lane centers
+ */
+export function getLaneScale(laneWidth: number): number {
+  return laneWidth / BASE_LANE_WIDTH;
+}
+
+/**
+ * Get the stretch of track an obstacle overlaps the board along (in z) while passing it
+ * @param boardZ Z position of the board
+ * @returns The obstacle z where the overlap starts and where it ends
+ */
+export function getBoardOverlap(boardZ: number): { start: number; end: number } {
+  return {
+    start: boardZ - BOARD_HALF_LENGTH - OBSTACLE_AHEAD,
+    end: boardZ + BOARD_HALF_LENGTH + OBSTACLE_BEHIND,
+  };
+}
+
+/**
+ * Get the collision boxes of an obstacle
+ * @param obstacle The obstacle
+ * @param lanes Lateral position of every lane
+ * @param laneWidth Distance between lane centers
+ */
+export function getObstacleBoxes(obstacle: ObstacleEntity, lanes: readonly number[], laneWidth: number): Box[] {
+  const depth = { minZ: obstacle.z - OBSTACLE_BEHIND, maxZ: obstacle.z + OBSTACLE_AHEAD };
+  const scale = getLaneScale(laneWidth);
+  const wallHalfWidth = WALL_HALF_WIDTH * scale;
+  
+  switch (obstacle.type) {
+    case ObstacleType.WALL:
+    case ObstacleType.SLIDING_WALL:
+      // Walls stand on the grid so they can't be ducked under
+      return [{ minX: obstacle.x - wallHalfWidth, maxX: obstacle.x + wallHalfWidth, minY: 0, maxY: WALL_HEIGHT, ...depth }];
+    
+    case ObstacleType.DOUBLE_WALL:
+      // One box per blocked lane so the open lane really is open
+      return lanes
+        .map((laneX, lane) => ({ laneX, lane }))
+        .filter(({ lane }) => lane !== obstacle.lane)
+        .map(({ laneX }) => ({
+          minX: laneX - DOUBLE_WALL_HALF_WIDTH * scale,
+          maxX: laneX + DOUBLE_WALL_HALF_WIDTH * scale,
+          minY: 0,
+          maxY: WALL_HEIGHT,
+          ...depth
+        }));
+    
+    case ObstacleType.LOW_BARRIER:
+      return [{ minX: obstacle.x - wallHalfWidth, maxX: obstacle.x + wallHalfWidth, minY: 0, maxY: LOW_BARRIER_HEIGHT, ...depth }];
+    
+    case ObstacleType.LASER_GATE: {
+      // The lasers fill the gate from the grid up, so a lit gate can't be jumped or ducked
+      const gateHalfWidth = LASER_GATE_HALF_WIDTH * scale;
+      return [{ minX: obstacle.x - gateHalfWidth, maxX: obstacle.x + gateHalfWidth, minY: 0, maxY: WALL_HEIGHT, ...depth }];
+    }
+    
+    case ObstacleType.OVERHEAD_BEAM: {
+      // Everything above the underside counts as solid so the beam can't be jumped
+      const trackHalfWidth = (lanes[lanes.length - 1] - lanes[0]) / 2 + 1.5 * scale;
+      const trackCenter = (lanes[0] + lanes[lanes.length - 1]) / 2;
+      return [{ minX: trackCenter - trackHalfWidth, maxX: trackCenter + trackHalfWidth, minY: BEAM_UNDERSIDE, maxY: WALL_HEIGHT, ...depth }];
+    }
+  }
+}
+
+/**
+ * Get the collision box of a crystal or power-up
+ */
+export function getPickupBox(x: number, z: number): Box {
+  return {
+    minX: x - PICKUP_HALF_SIZE,
+    maxX: x + PICKUP_HALF_SIZE,
+    minY: PICKUP_HEIGHT - PICKUP_HALF_SIZE,
+    maxY: PICKUP_HEIGHT + PICKUP_HALF_SIZE,
+    minZ: z - PICKUP_HALF_SIZE,
+    maxZ: z + PICKUP_HALF_SIZE,
+  };
+}
@@ -0,0 +1,168 @@
+import { DEFAULT_SIMULATION_CONFIG, SimulationConfig } from './SimulationConfig';
+import { DifficultyId } from './SimulationTypes';
+
+/**
+ * Difficulty curve of a run: how fast the track gets and how densely things spawn on it
+ */
+export type DifficultyProfile = Pick<SimulationConfig,
+  | 'baseSpeed'
+  | 'maxAdditionalSpeed'
+  | 'accelerationFactor'
+  | 'exponentialScale'
+  | 'exponentialPower'
+  | 'firstObstacleTime'
+  | 'minObstacleSpacing'
+  | 'maxObstacleSpacing'
+  | 'minCrystalSpacing'
+  | 'maxCrystalSpacing'
+  | 'spacingRampDistance'
+  | 'minObstacleSpacingFloor'
+  | 'maxObstacleSpacingFloor'
+  | 'minCrystalSpacingFloor'
+  | 'maxCrystalSpacingFloor'
+  | 'reactionTime'
+> & {
+  patternDistanceScale: number; // Scales where each pattern band starts (below 1 brings double walls and busier patterns in sooner)
+};
+
+/**
+ * A difficulty the player can pick on the start screen
+ */
+export interface DifficultyPreset {
+  id: DifficultyId;
+  name: string;
+  description: string;
+  profile: DifficultyProfile;
+}
+
+// Preset picked until the player chooses another one
+export const DEFAULT_DIFFICULTY: DifficultyId = 'normal';
+
+// Every preset, easiest first
+export const DIFFICULTY_IDS: DifficultyId[] = ['easy', 'normal', 'hard', 'insane'];
+
+export const DIFFICULTY_PRESETS: Record<DifficultyId, DifficultyPreset> = {
+  easy: {
+    id: 'easy',
+    name: 'Easy',
+    description: 'Slower speed, more room between obstacles',
+    profile: {
+      baseSpeed: 13,
+      maxAdditionalSpeed: 35,
+      accelerationFactor: 140,
+      exponentialScale: 3,
+      exponentialPower: 1.5,
+      firstObstacleTime: 5.0,
+      minObstacleSpacing: 3.8,
+      maxObstacleSpacing: 7.0,
+      minCrystalSpacing: 1.8,
+      maxCrystalSpacing: 3.5,
+      spacingRampDistance: 1500,
+      minObstacleSpacingFloor: 2.0,
+      maxObstacleSpacingFloor: 3.8,
+      minCrystalSpacingFloor: 1.0,
+      maxCrystalSpacingFloor: 2.0,
+      reactionTime: 0.25,
+      patternDistanceScale: 1.6,
+    },
+  },
+  normal: {
+    id: 'normal',
+    name: 'Normal',
+    description: 'The standard ride',
+    profile: {
+      baseSpeed: DEFAULT_SIMULATION_CONFIG.baseSpeed,
+      maxAdditionalSpeed: DEFAULT_SIMULATION_CONFIG.maxAdditionalSpeed,
+      accelerationFactor: DEFAULT_SIMULATION_CONFIG.accelerationFactor,
+      exponentialScale: DEFAULT_SIMULATION_CONFIG.exponentialScale,
+      exponentialPower: DEFAULT_SIMULATION_CONFIG.exponentialPower,
+      firstObstacleTime: DEFAULT_SIMULATION_CONFIG.firstObstacleTime,
+      minObstacleSpacing: DEFAULT_SIMULATION_CONFIG.minObstacleSpacing,
+      maxObstacleSpacing: DEFAULT_SIMULATION_CONFIG.maxObstacleSpacing,
+      minCrystalSpacing: DEFAULT_SIMULATION_CONFIG.minCrystalSpacing,
+      maxCrystalSpacing: DEFAULT_SIMULATION_CONFIG.maxCrystalSpacing,
+      spacingRampDistance: DEFAULT_SIMULATION_CONFIG.spacingRampDistance,
+      minObstacleSpacingFloor: DEFAULT_SIMULATION_CONFIG.minObstacleSpacingFloor,
+      maxObstacleSpacingFloor: DEFAULT_SIMULATION_CONFIG.maxObstacleSpacingFloor,
+      minCrystalSpacingFloor: DEFAULT_SIMULATION_CONFIG.minCrystalSpacingFloor,
+      maxCrystalSpacingFloor: DEFAULT_SIMULATION_CONFIG.maxCrystalSpacingFloor,
+      reactionTime: DEFAULT_SIMULATION_CONFIG.reactionTime,
+      patternDistanceScale: 1,
+    },
+  },
+  hard: {
+    id: 'hard',
+    name: 'Hard',
+    description: 'Faster from the start, busier patterns sooner',
+    profile: {
+      baseSpeed: 19,
+      maxAdditionalSpeed: 60,
+      accelerationFactor: 80,
+      exponentialScale: 7,
+      exponentialPower: 1.5,
+      firstObstacleTime: 3.0,
+      minObstacleSpacing: 2.6,
+      maxObstacleSpacing: 5.0,
+      minCrystalSpacing: 2.2,
+      maxCrystalSpacing: 4.5,
+      spacingRampDistance: 800,
+      minObstacleSpacingFloor: 1.3,
+      maxObstacleSpacingFloor: 2.6,
+      minCrystalSpacingFloor: 1.2,
+      maxCrystalSpacingFloor: 2.2,
+      reactionTime: 0.12,
+      patternDistanceScale: 0.7,
+    },
+  },
+  insane: {
+    id: 'insane',
+    name: 'Insane',
+    description: 'Full speed, wall after wall',
+    profile: {
+      baseSpeed: 23,
+      maxAdditionalSpeed: 70,
+      accelerationFactor: 60,
+      exponentialScale: 10,
+      exponentialPower: 1.6,
+      firstObstacleTime: 2.5,
+      minObstacleSpacing: 2.2,
+      maxObstacleSpacing: 4.0,
+      minCrystalSpacing: 2.5,
+      maxCrystalSpacing: 5.0,
+      spacingRampDistance: 600,
+      minObstacleSpacingFloor: 1.1,
+      maxObstacleSpacingFloor: 2.2,
+      minCrystalSpacingFloor: 1.4,
+      maxCrystalSpacingFloor: 2.5,
+      reactionTime: 0.1,
+      patternDistanceScale: 0.4,
+    },
+  },
+};
+
+/**
+ * Check whether a value is a known difficulty preset id
+ */
+export function isDifficultyId(value: unknown): value is DifficultyId {
+  return DIFFICULTY_IDS.includes(value as DifficultyId);
+}
+
+/**
+ * Get the tuning for a run on a difficulty preset
+ * @param difficulty Preset to apply
+ * @param config Normal difficulty tuning to apply it to (everything outside the difficulty profile is kept)
+ */
+export function applyDifficulty(difficulty: DifficultyId, config: SimulationConfig = DEFAULT_SIMULATION_CONFIG): SimulationConfig {
+  const { patternDistanceScale, ...profile } = DIFFICULTY_PRESETS[difficulty].profile;
+  
+  return {
+    ...config,
+    ...profile,
+    difficulty,
+    // Pattern bands start further along (or sooner), the first band always at the start line
+    patterns: {
+      ...config.patterns,
+      bands: config.patterns.bands.map(band => ({ ...band, minDistance: band.minDistance * patternDistanceScale })),
+    },
+  };
+}
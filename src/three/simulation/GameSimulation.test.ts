@@ -0,0 +1,291 @@
+import { describe, expect, it } from 'vitest';
+import { GameSimulation } from './GameSimulation';
+import { DEFAULT_SIMULATION_CONFIG, SimulationConfig } from './SimulationConfig';
+import { PowerUpType, SimulationEvent } from './SimulationTypes';
+import { TEST_STEP, stepFor } from './testHelpers';
+
+// Tuning with nothing ever spawning, to test the board on its own
+const EMPTY_TRACK: SimulationConfig = {
+  ...DEFAULT_SIMULATION_CONFIG,
+  firstObstacleTime: Infinity,
+  firstCrystalTime: Infinity,
+  firstPowerUpTime: Infinity,
+};
+
+// Tuning with a power-up coming up every second
+const POWER_UP_TRACK: SimulationConfig = {
+  ...EMPTY_TRACK,
+  firstPowerUpTime: 0.5,
+  minPowerUpSpacing: 1,
+  maxPowerUpSpacing: 1,
+};
+
+function startRun(config: SimulationConfig = DEFAULT_SIMULATION_CONFIG, seed: number = 1): GameSimulation {
+  const simulation = new GameSimulation(config);
+  simulation.start(seed, config);
+  return simulation;
+}
+
+/**
+ * Steer the board into power-ups until one of the given type is collected
+ */
+function collectPowerUp(simulation: GameSimulation, type: PowerUpType): void {
+  for (let i = 0; i < 60 * 60; i++) {
+    const target = simulation.getPowerUps().find(powerUp => powerUp.type === type);
+    const lane = simulation.getBoard().lane;
+    if (target && target.lane !== lane) {
+      simulation.applyAction(target.lane > lane ? 'right' : 'left');
+    }
+    
+    simulation.step(TEST_STEP);
+    if (simulation.getEvents().some(event => event.type === 'powerUpCollected' && event.powerUp.type === type)) return;
+  }
+  throw new Error(`Never collected a ${type} power-up`);
+}
+
+/**
+ * Move the board out of the way of any power-up about to reach it
+ */
+function avoidPowerUps(simulation: GameSimulation): void {
+  const lane = simulation.getBoard().lane;
+  const blocked = (candidate: number) => simulation.getPowerUps().some(powerUp => powerUp.lane === candidate && powerUp.z > -40);
+  if (!blocked(lane)) return;
+  
+  for (let candidate = 0; candidate < simulation.getLanes().length; candidate++) {
+    if (!blocked(candidate)) {
+      simulation.applyAction(candidate > lane ? 'right' : 'left');
+      return;
+    }
+  }
+}
+
+describe('lane changes', () => {
+  it('starts in the center lane', () => {
+    expect(startRun(EMPTY_TRACK).getBoard().lane).toBe(1);
+    expect(startRun({ ...EMPTY_TRACK, laneCount: 5 }).getBoard().lane).toBe(2);
+  });
+  
+  it('moves the board one lane over', () => {
+    const simulation = startRun(EMPTY_TRACK);
+    expect(simulation.applyAction('left')).toBe(true);
+    expect(simulation.getBoard().lane).toBe(0);
+    
+    stepFor(simulation, 1);
+    expect(simulation.getBoard().x).toBeCloseTo(simulation.getLanes()[0]);
+  });
+  
+  it('ignores lane changes during the cooldown', () => {
+    const simulation = startRun(EMPTY_TRACK);
+    simulation.applyAction('left');
+    expect(simulation.applyAction('right')).toBe(false);
+    
+    stepFor(simulation, EMPTY_TRACK.moveCooldown + TEST_STEP);
+    expect(simulation.applyAction('right')).toBe(true);
+    expect(simulation.getBoard().lane).toBe(1);
+  });
+  
+  it('never leaves the track', () => {
+    const simulation = startRun(EMPTY_TRACK);
+    simulation.applyAction('right');
+    stepFor(simulation, 1);
+    expect(simulation.applyAction('right')).toBe(false);
+    expect(simulation.getBoard().lane).toBe(2);
+  });
+});
+
+describe('jump and duck', () => {
+  it('jumps in an arc and lands again', () => {
+    const simulation = startRun(EMPTY_TRACK);
+    expect(simulation.applyAction('jump')).toBe(true);
+    expect(simulation.applyAction('jump')).toBe(false);
+    
+    stepFor(simulation, 0.2);
+    expect(simulation.getBoard().airborne).toBe(true);
+    expect(simulation.getBoard().jumpHeight).toBeGreaterThan(0);
+    
+    stepFor(simulation, 1);
+    expect(simulation.getBoard().airborne).toBe(false);
+    expect(simulation.getBoard().jumpHeight).toBe(0);
+  });
+  
+  it('ducks for a while, then stands up again', () => {
+    const simulation = startRun(EMPTY_TRACK);
+    simulation.applyAction('duck');
+    stepFor(simulation, 0.3);
+    expect(simulation.isBoardDucking()).toBe(true);
+    expect(simulation.getBoard().hoverHeight).toBeCloseTo(EMPTY_TRACK.duckingHoverHeight);
+    
+    stepFor(simulation, EMPTY_TRACK.duckDuration + 0.5);
+    expect(simulation.isBoardDucking()).toBe(false);
+    expect(simulation.getBoard().hoverHeight).toBeCloseTo(EMPTY_TRACK.standingHoverHeight);
+  });
+  
+  it('cuts a jump short with a fast fall when ducking in mid-air', () => {
+    const simulation = startRun(EMPTY_TRACK);
+    simulation.applyAction('jump');
+    stepFor(simulation, 0.1);
+    simulation.applyAction('duck');
+    expect(simulation.getBoard().verticalVelocity).toBeLessThanOrEqual(-EMPTY_TRACK.jumpVelocity * 1.5);
+  });
+});
+
+describe('speed curve', () => {
+  it('starts at the base speed', () => {
+    expect(startRun().getSpeed()).toBe(DEFAULT_SIMULATION_CONFIG.baseSpeed);
+  });
+  
+  it('speeds up with distance, up to the maximum', () => {
+    const simulation = startRun();
+    const { baseSpeed, maxAdditionalSpeed } = DEFAULT_SIMULATION_CONFIG;
+    
+    let previous = simulation.getFullSpeed(0);
+    for (let distance = 100; distance <= 10000; distance += 100) {
+      const speed = simulation.getFullSpeed(distance);
+      expect(speed).toBeGreaterThanOrEqual(previous);
+      previous = speed;
+    }
+    expect(simulation.getFullSpeed(1e6)).toBe(baseSpeed + maxAdditionalSpeed);
+  });
+  
+  it('follows the curve as the run goes on', () => {
+    const simulation = startRun(EMPTY_TRACK);
+    stepFor(simulation, 10);
+    const distance = simulation.getDistance();
+    expect(simulation.getSpeed()).toBeGreaterThan(EMPTY_TRACK.baseSpeed);
+    expect(simulation.getSpeed()).toBeCloseTo(simulation.getFullSpeed(distance), 1);
+  });
+});
+
+describe('spawning', () => {
+  it('leaves the start of the track empty', () => {
+    const simulation = startRun();
+    stepFor(simulation, DEFAULT_SIMULATION_CONFIG.firstCrystalTime - 0.1);
+    expect(simulation.getCrystals()).toHaveLength(0);
+    expect(simulation.getObstacles()).toHaveLength(0);
+    
+    stepFor(simulation, 0.2);
+    expect(simulation.getCrystals().length).toBeGreaterThan(0);
+  });
+  
+  it('spawns obstacles far ahead once the first obstacle time has passed', () => {
+    const simulation = startRun();
+    stepFor(simulation, DEFAULT_SIMULATION_CONFIG.firstObstacleTime + 0.1);
+    
+    const obstacles = simulation.getObstacles();
+    expect(obstacles.length).toBeGreaterThan(0);
+    for (const obstacle of obstacles) {
+      expect(obstacle.z).toBeLessThan(DEFAULT_SIMULATION_CONFIG.obstacleSpawnZ + 10);
+    }
+  });
+  
+  it('lays out the same track for the same seed', () => {
+    const first = startRun(DEFAULT_SIMULATION_CONFIG, 7);
+    const second = startRun(DEFAULT_SIMULATION_CONFIG, 7);
+    const other = startRun(DEFAULT_SIMULATION_CONFIG, 8);
+    stepFor(first, 12);
+    stepFor(second, 12);
+    stepFor(other, 12);
+    
+    expect(second.getObstacles()).toEqual(first.getObstacles());
+    expect(second.getCrystals()).toEqual(first.getCrystals());
+    expect(other.getObstacles()).not.toEqual(first.getObstacles());
+  });
+  
+  it('keeps within the entity limits', () => {
+    const config = DEFAULT_SIMULATION_CONFIG;
+    const simulation = startRun(config);
+    for (let i = 0; i < 60 * 60 && simulation.isRunning(); i++) {
+      simulation.step(TEST_STEP);
+      expect(simulation.getObstacles().length).toBeLessThanOrEqual(config.maxObstacles);
+      expect(simulation.getCrystals().length).toBeLessThanOrEqual(config.maxCrystals);
+      expect(simulation.getPowerUps().length).toBeLessThanOrEqual(config.maxPowerUps);
+    }
+  });
+});
+
+describe('collisions', () => {
+  it('ends the run when the board rides into an obstacle', () => {
+    const simulation = startRun();
+    const events: SimulationEvent[] = [];
+    for (let i = 0; i < 60 * 120 && simulation.isRunning(); i++) {
+      simulation.step(TEST_STEP);
+      events.push(...simulation.getEvents());
+    }
+    
+    expect(simulation.hasCrashed()).toBe(true);
+    expect(simulation.isRunning()).toBe(false);
+    expect(events.some(event => event.type === 'collision')).toBe(true);
+    
+    // The track freezes after the crash
+    const distance = simulation.getDistance();
+    stepFor(simulation, 1);
+    expect(simulation.getDistance()).toBe(distance);
+  });
+  
+  it('collects crystals in the board\'s lane', () => {
+    const simulation = startRun({ ...EMPTY_TRACK, firstCrystalTime: 0.5, crystalPoints: 30 });
+    const events = stepFor(simulation, 20);
+    const collected = events.filter(event => event.type === 'crystalCollected').length;
+    
+    expect(collected).toBeGreaterThan(0);
+    expect(simulation.getCrystalCount()).toBe(collected);
+    expect(simulation.getCrystalScore()).toBe(collected * 30);
+  });
+  
+  it('keeps the points of crystals spent on a revive', () => {
+    const simulation = startRun({ ...EMPTY_TRACK, firstCrystalTime: 0.5, firstObstacleTime: 10, reviveCost: 1 });
+    while (simulation.isRunning()) {
+      simulation.step(TEST_STEP);
+    }
+    const collected = simulation.getCrystalsCollected();
+    const score = simulation.getCrystalScore();
+    expect(collected).toBeGreaterThan(0);
+    
+    expect(simulation.applyAction('revive')).toBe(true);
+    expect(simulation.getCrystalCount()).toBe(collected - 1);
+    expect(simulation.getCrystalsCollected()).toBe(collected);
+    expect(simulation.getCrystalScore()).toBe(score);
+  });
+  
+  it('lets a shield absorb one hit', () => {
+    const simulation = startRun({ ...POWER_UP_TRACK, firstObstacleTime: 10 }, 3);
+    collectPowerUp(simulation, 'shield');
+    expect(simulation.getTime()).toBeLessThan(10);
+    
+    let absorbed = false;
+    for (let i = 0; i < 60 * 120 && !absorbed; i++) {
+      simulation.step(TEST_STEP);
+      absorbed = simulation.getEvents().some(event => event.type === 'shieldAbsorbed');
+    }
+    
+    expect(absorbed).toBe(true);
+    expect(simulation.isRunning()).toBe(true);
+  });
+});
+
+describe('power-ups', () => {
+  it('runs a power-up for its duration, then wears off', () => {
+    const simulation = startRun(POWER_UP_TRACK);
+    const duration = POWER_UP_TRACK.powerUpDurations.magnet;
+    collectPowerUp(simulation, 'magnet');
+    expect(simulation.getActivePowerUps().magnet).toBe(duration);
+    
+    let elapsed = 0;
+    while (simulation.isPowerUpActive('magnet')) {
+      avoidPowerUps(simulation);
+      simulation.step(TEST_STEP);
+      elapsed += TEST_STEP;
+      expect(simulation.getEvents().some(event => event.type === 'powerUpCollected')).toBe(false);
+    }
+    expect(elapsed).toBeCloseTo(duration, 1);
+  });
+  
+  it('slows the world down during slow-motion', () => {
+    const simulation = startRun(POWER_UP_TRACK);
+    collectPowerUp(simulation, 'slowMotion');
+    simulation.step(TEST_STEP);
+    
+    const fullSpeed = simulation.getFullSpeed(simulation.getDistance());
+    expect(simulation.getSpeed()).toBeCloseTo(fullSpeed * POWER_UP_TRACK.slowMotionFactor, 1);
+  });
+});
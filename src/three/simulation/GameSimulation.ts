@@ -0,0 +1,1166 @@
+import { SeededRandom } from '../utils/SeededRandom';
+import { SimulationConfig, DEFAULT_SIMULATION_CONFIG, getLanePositions } from './SimulationConfig';
+import { AdaptiveDifficulty } from './AdaptiveDifficulty';
+import { Box, boxesIntersect, getBoardBox, getLateralGap, getObstacleBoxes, getPickupBox, isDucking } from './Collision';
+import {
+  ActivePowerUps,
+  BoardAction,
+  BoardState,
+  CrystalEntity,
+  ObstacleEntity,
+  ObstacleSlide,
+  ObstacleType,
+  PowerUpEntity,
+  PowerUpType,
+  SimulationEvent
+} from './SimulationTypes';
+import {
+  PATTERN_OBSTACLE_TYPES,
+  SpawnPattern,
+  getPatternLaneSpan,
+  getPatternLength,
+  pickPattern
+} from './SpawnPatterns';
+import {
+  ObstaclePlacement,
+  getArrivalLane,
+  getLaneChangeTime,
+  getOpenLanes,
+  getTrackRows,
+  isTrackSolvable
+} from './Reachability';
+
+// Every power-up type, in the order they are picked from
+const POWER_UP_TYPES: PowerUpType[] = ['shield', 'magnet', 'multiplier', 'slowMotion'];
+
+// Delay before retrying an obstacle spawn that had to be rejected (seconds)
+const REJECTED_SPAWN_RETRY = 0.25;
+
+// How many dodges (a reaction plus a lane change) apart walls in the same lane should arrive, where the track allows it
+const SAME_LANE_DODGES = 10;
+
+// Step and horizon used to predict where the world will be when a beat-synced pattern arrives (seconds)
+const PREDICTION_STEP = 1 / 60;
+const MAX_PREDICTION_TIME = 30;
+
+// Where a pattern is placed on the track
+interface PatternPlacement {
+  baseLane: number;  // Track lane of the pattern's lane 0
+  span: number;      // Lanes the pattern covers
+  mirrored: boolean; // Whether the pattern is flipped left to right
+}
+
+/**
+ * Pure game simulation: lanes, speed curve, spawning, scoring and collisions
+ * Has no dependency on Three.js, audio or the DOM so it can be stepped headlessly (e.g. under Node)
+ */
+export class GameSimulation {
+  private config: SimulationConfig;
+  private rng: SeededRandom;
+  private lanes: number[];
+  private running: boolean = false;
+  private crashed: boolean = false;
+  private nextEntityId: number = 1;
+  private tick: number = 0; // Number of steps since the run started
+  private events: SimulationEvent[] = [];
+  
+  // Run state
+  private time: number = 0;
+  private distance: number = 0;
+  private speed: number = 0;
+  private score: number = 0;
+  private crystalCount: number = 0; // Crystals in hand - a revive spends some
+  private crystalsCollected: number = 0;
+  private obstaclesPassed: number = 0;
+  private maxSpeed: number = 0;
+  private multiplierBonus: number = 0;
+  private powerUpTimers: ActivePowerUps = {};
+  
+  // Near misses and combo
+  private nearMisses: number = 0;
+  private nearMissScore: number = 0;
+  private combo: number = 0;       // Combo level
+  private comboTimer: number = 0;  // Time until the combo drops a level
+  private bestCombo: number = 0;
+  private comboBonus: number = 0;  // Extra points earned through the combo multiplier
+  private lastLaneChange: { fromLane: number; time: number } | null = null;
+  
+  // Revive
+  private revived: boolean = false;         // Whether the run's one revive has been used
+  private invulnerableTimer: number = 0;    // Time left before obstacles can hit the board again
+  private board: BoardState;
+  private adaptive: AdaptiveDifficulty;
+  
+  // Track contents
+  private obstacles: ObstacleEntity[] = [];
+  private crystals: CrystalEntity[] = [];
+  private powerUps: PowerUpEntity[] = [];
+  private nextObstacleTime: number = 0;
+  private nextCrystalTime: number = 0;
+  private nextPowerUpTime: number = 0;
+  
+  constructor(config: SimulationConfig = DEFAULT_SIMULATION_CONFIG, seed?: number) {
+    this.config = config;
+    this.rng = new SeededRandom(seed);
+    this.lanes = getLanePositions(config);
+    this.board = this.createBoard();
+    this.adaptive = new AdaptiveDifficulty(config);
+  }
+  
+  /**
+   * Create a board resting in the center lane
+   */
+  private createBoard(): BoardState {
+    const centerLane = Math.floor(this.lanes.length / 2);
+    return {
+      lane: centerLane,
+      x: this.lanes[centerLane],
+      targetX: this.lanes[centerLane],
+      previousX: this.lanes[centerLane],
+      hoverHeight: this.config.standingHoverHeight,
+      jumpHeight: 0,
+      previousHeight: this.config.standingHoverHeight,
+      verticalVelocity: 0,
+      airborne: false,
+      duckTimer: 0,
+      moveCooldown: 0,
+    };
+  }
+  
+  /**
+   * Start a new run
+   * @param seed Seed for all gameplay randomness - the same seed and inputs give the same run
+   * @param config Tuning to use for this run (defaults to the current tuning)
+   */
+  public start(seed: number, config: SimulationConfig = this.config): void {
+    this.config = config;
+    this.lanes = getLanePositions(config);
+    this.reset();
+    this.rng = new SeededRandom(seed);
+    this.running = true;
+    this.nextObstacleTime = this.config.firstObstacleTime;
+    this.nextCrystalTime = this.config.firstCrystalTime;
+    this.nextPowerUpTime = this.config.firstPowerUpTime;
+    this.speed = this.computeSpeed();
+  }
+  
+  /**
+   * Stop the run (the track freezes, the board can still settle into its lane)
+   */
+  public stop(): void {
+    this.running = false;
+    this.powerUpTimers = {};
+  }
+  
+  /**
+   * Clear the track and put the board back at the start
+   */
+  public reset(): void {
+    this.running = false;
+    this.crashed = false;
+    this.tick = 0;
+    this.time = 0;
+    this.distance = 0;
+    this.speed = 0;
+    this.score = 0;
+    this.crystalCount = 0;
+    this.crystalsCollected = 0;
+    this.obstaclesPassed = 0;
+    this.maxSpeed = 0;
+    this.multiplierBonus = 0;
+    this.powerUpTimers = {};
+    this.nearMisses = 0;
+    this.nearMissScore = 0;
+    this.combo = 0;
+    this.comboTimer = 0;
+    this.bestCombo = 0;
+    this.comboBonus = 0;
+    this.lastLaneChange = null;
+    this.revived = false;
+    this.invulnerableTimer = 0;
+    this.obstacles = [];
+    this.crystals = [];
+    this.powerUps = [];
+    this.events = [];
+    this.board = this.createBoard();
+    this.adaptive.reset(this.config);
+  }
+  
+  /**
+   * Apply a player action to the board
+   * @returns Whether the action had any effect (e.g. a lane change during the cooldown does not)
+   */
+  public applyAction(action: BoardAction): boolean {
+    // A revive is the one action that works after a crash
+    if (action === 'revive') return this.revive();
+    if (!this.running) return false;
+    
+    switch (action) {
+      case 'left':
+        return this.changeLane(-1);
+      case 'right':
+        return this.changeLane(1);
+      case 'jump':
+        return this.jump();
+      case 'duck':
+        return this.duck();
+    }
+  }
+  
+  /**
+   * Check if the board can be revived: right after a crash, once per run, with enough crystals
+   */
+  public canRevive(): boolean {
+    return this.crashed && !this.revived && this.crystalCount >= this.config.reviveCost;
+  }
+  
+  /**
+   * Pay crystals to carry on after a crash, at the same distance and speed
+   * The obstacles close ahead are cleared away and the board can't be hit for a moment
+   */
+  private revive(): boolean {
+    if (!this.canRevive()) return false;
+    
+    const config = this.config;
+    this.crystalCount -= config.reviveCost;
+    this.revived = true;
+    this.crashed = false;
+    this.running = true;
+    this.invulnerableTimer = config.reviveInvulnerability;
+    this.obstacles = this.obstacles.filter(obstacle => obstacle.z < config.boardZ - config.reviveClearDistance);
+    return true;
+  }
+  
+  /**
+   * Move the board one lane over (never wraps around)
+   */
+  private changeLane(direction: -1 | 1): boolean {
+    const board = this.board;
+    const lane = board.lane + direction;
+    if (lane < 0 || lane >= this.lanes.length || board.moveCooldown > 0) return false;
+    
+    this.lastLaneChange = { fromLane: board.lane, time: this.time };
+    this.reportDodge(board.lane);
+    board.lane = lane;
+    board.targetX = this.lanes[lane];
+    board.moveCooldown = this.config.moveCooldown; // Prevent rapid lane changes
+    return true;
+  }
+  
+  /**
+   * Tell the adaptive difficulty how close the next wall in a lane the board is leaving was
+   */
+  private reportDodge(fromLane: number): void {
+    const boardZ = this.config.boardZ;
+    const ahead = this.obstacles.filter(obstacle =>
+      obstacle.z < boardZ && !getOpenLanes([obstacle], this.lanes.length)[fromLane]
+    );
+    if (ahead.length === 0 || this.speed <= 0) return;
+    
+    const nearestZ = Math.max(...ahead.map(obstacle => obstacle.z));
+    this.adaptive.onDodge((boardZ - nearestZ) / this.speed);
+  }
+  
+  /**
+   * Launch the board into a parabolic jump (ignored while already airborne)
+   */
+  private jump(): boolean {
+    if (this.board.airborne) return false;
+    
+    this.board.duckTimer = 0; // Jumping cancels a duck
+    this.board.airborne = true;
+    this.board.verticalVelocity = this.config.jumpVelocity;
+    return true;
+  }
+  
+  /**
+   * Drop the board low for a short time, cutting any jump short with a fast fall
+   */
+  private duck(): boolean {
+    const board = this.board;
+    if (board.airborne) {
+      board.verticalVelocity = Math.min(board.verticalVelocity, -this.config.jumpVelocity * 1.5);
+    }
+    board.duckTimer = this.config.duckDuration;
+    return true;
+  }
+  
+  /**
+   * Advance the simulation by one fixed step
+   * @param deltaTime Step duration in seconds
+   */
+  public step(deltaTime: number): void {
+    this.events = [];
+    this.tick++;
+    this.time += deltaTime;
+    
+    if (this.running) {
+      // Speed follows the distance-driven curve, scaled down by slow-motion
+      this.speed = this.computeSpeed();
+      this.maxSpeed = Math.max(this.maxSpeed, this.speed);
+      this.distance += this.speed * deltaTime;
+      this.addMultiplierBonus(this.speed * deltaTime); // Distance covered under the multiplier counts twice
+      
+      this.updateSpawning(deltaTime);
+      this.moveEntities(deltaTime);
+    }
+    
+    this.stepBoard(deltaTime);
+    
+    if (this.running) {
+      this.updatePowerUpTimers(deltaTime);
+      this.updateCombo(deltaTime);
+      this.adaptive.update(deltaTime);
+      this.invulnerableTimer = Math.max(this.invulnerableTimer - deltaTime, 0);
+      this.checkCollisions();
+    }
+  }
+  
+  /**
+   * Compute the world speed for the current distance
+   */
+  private computeSpeed(): number {
+    return this.getSpeedAt(this.distance, this.isPowerUpActive('slowMotion'));
+  }
+  
+  /**
+   * Get the world speed at a distance
+   * @param distance Distance travelled
+   * @param slowMotion Whether slow-motion is active
+   */
+  private getSpeedAt(distance: number, slowMotion: boolean): number {
+    // Adaptive difficulty holds back some of the speed gained along the run
+    const baseSpeed = this.config.baseSpeed;
+    const speed = baseSpeed + (this.getFullSpeed(distance) - baseSpeed) * this.adaptive.getSpeedScale();
+    
+    // Slow-motion scales the whole world down, including distance gained
+    const timeScale = slowMotion ? this.config.slowMotionFactor : 1;
+    return speed * timeScale;
+  }
+  
+  /**
+   * Get the world speed at a distance, ignoring slow-motion
+   */
+  public getFullSpeed(distance: number): number {
+    const config = this.config;
+    
+    // Add exponential acceleration for progressively faster speed over time
+    const linearAcceleration = distance / config.accelerationFactor;
+    const exponentialFactor = Math.pow(distance / 1000, config.exponentialPower) * config.exponentialScale;
+    const additionalSpeed = Math.min(linearAcceleration + exponentialFactor, config.maxAdditionalSpeed);
+    
+    return config.baseSpeed + additionalSpeed;
+  }
+  
+  /**
+   * Spawn anything whose timer has run out
+   * @param deltaTime Step duration in seconds
+   */
+  private updateSpawning(deltaTime: number): void {
+    if (this.time >= this.nextObstacleTime) {
+      this.spawnObstacle(deltaTime);
+    }
+    if (this.time >= this.nextCrystalTime) {
+      this.spawnCrystal(deltaTime);
+    }
+    if (this.time >= this.nextPowerUpTime) {
+      this.spawnPowerUp();
+    }
+  }
+  
+  /**
+   * Spawn a new obstacle pattern
+   * @param deltaTime Step duration in seconds
+   */
+  private spawnObstacle(deltaTime: number): void {
+    const config = this.config;
+    const distance = this.distance;
+    let patternLength = 0;
+    
+    const pattern = pickPattern(config.patterns, 'obstacle', distance, this.lanes.length, this.rng);
+    if (pattern && this.obstacles.length + this.countPatternObstacles(pattern) <= config.maxObstacles) {
+      const frontZ = this.getBeatSpawnZ(config.obstacleSpawnZ, deltaTime);
+      const placement = this.findSolvablePlacement(pattern, frontZ);
+      
+      if (!placement) {
+        // Every placement would leave the player without a way through - try again shortly
+        this.nextObstacleTime = this.time + REJECTED_SPAWN_RETRY;
+        return;
+      }
+      
+      this.spawnPattern(pattern, placement, frontZ);
+      patternLength = getPatternLength(pattern);
+    }
+    
+    // As the game progresses, decrease the minimum and maximum obstacle spacing (held back by adaptive difficulty)
+    const speedFactor = Math.min(distance / config.spacingRampDistance, 1) * this.adaptive.getRampScale(); // Max speedup factor of 1
+    const adjustedMinSpacing = Math.max(config.minObstacleSpacing - speedFactor, config.minObstacleSpacingFloor);
+    const adjustedMaxSpacing = Math.max(config.maxObstacleSpacing - speedFactor * 2, config.maxObstacleSpacingFloor);
+    
+    // Longer patterns hold the next one back until they have scrolled in
+    const patternTime = this.speed > 0 ? patternLength / this.speed : 0;
+    const spacing = this.rng.range(adjustedMinSpacing, adjustedMaxSpacing) + this.adaptive.getExtraSpacing();
+    this.nextObstacleTime = this.time + patternTime + spacing;
+  }
+  
+  /**
+   * Spawn a new crystal pattern
+   * @param deltaTime Step duration in seconds
+   */
+  private spawnCrystal(deltaTime: number): void {
+    const config = this.config;
+    
+    const pattern = pickPattern(config.patterns, 'crystal', this.distance, this.lanes.length, this.rng);
+    if (pattern) {
+      this.spawnPattern(pattern, this.placePattern(pattern), this.getBeatSpawnZ(config.crystalSpawnZ, deltaTime));
+    }
+    
+    // As the game progresses, decrease the crystal spacing
+    const speedFactor = Math.min(this.distance / config.spacingRampDistance, 1); // Max speedup factor of 1
+    const adjustedMinSpacing = Math.max(config.minCrystalSpacing - speedFactor, config.minCrystalSpacingFloor);
+    const adjustedMaxSpacing = Math.max(config.maxCrystalSpacing - speedFactor, config.maxCrystalSpacingFloor);
+    
+    // Longer delay between patterns compared to single crystals
+    this.nextCrystalTime = this.time + this.rng.range(adjustedMinSpacing, adjustedMaxSpacing) * 2;
+  }
+  
+  /**
+   * Get where to spawn a pattern so its front row reaches the board on a beat
+   * Without beat sync that's the usual spawn z. With it, the pattern is pushed back (by less than a
+   * beat's travel) until it arrives on the first beat after it would have.
+   * @param spawnZ Usual spawn z
+   * @param deltaTime Step duration in seconds
+   */
+  private getBeatSpawnZ(spawnZ: number, deltaTime: number): number {
+    const config = this.config;
+    if (!config.beatSync || !config.musicBpm) return spawnZ;
+    
+    // Follow the speed curve forward (including any slow-motion left) to see how far the world moves
+    const slowMotionLeft = this.powerUpTimers.slowMotion ?? 0;
+    let elapsed = 0;
+    let travelled = 0;
+    const advance = (deltaTime: number) => {
+      travelled += this.getSpeedAt(this.distance + travelled, elapsed < slowMotionLeft) * deltaTime;
+      elapsed += deltaTime;
+    };
+    
+    // Until the pattern would have reached the board...
+    const approach = config.boardZ - spawnZ;
+    while (travelled < approach && elapsed < MAX_PREDICTION_TIME) {
+      advance(PREDICTION_STEP);
+    }
+    
+    // ...then on to the next beat
+    const beatTime = this.getNextBeat(this.time + elapsed) - this.time;
+    while (elapsed < beatTime) {
+      advance(Math.min(PREDICTION_STEP, beatTime - elapsed));
+    }
+    
+    // The pattern still moves with the current step once it has spawned
+    return config.boardZ - travelled - this.speed * deltaTime;
+  }
+  
+  /**
+   * Get the run time of the first beat of the music at or after a time
+   * The music starts with the run and loops every musicLength seconds
+   */
+  private getNextBeat(time: number): number {
+    const config = this.config;
+    const beat = 60 / config.musicBpm!;
+    const length = config.musicLength;
+    
+    const loopStart = length > 0 ? Math.floor(time / length) * length : 0;
+    const beats = Math.max(Math.ceil((time - loopStart - config.musicFirstBeat) / beat), 0);
+    const next = config.musicFirstBeat + beats * beat;
+    
+    // Past the last beat of the track, the next one is the first beat of the next loop
+    if (length > 0 && next >= length) {
+      return loopStart + length + config.musicFirstBeat;
+    }
+    return loopStart + next;
+  }
+  
+  /**
+   * Pick where a pattern goes on the track: a random shift that keeps it on the track, mirrored half the time
+   */
+  private placePattern(pattern: SpawnPattern): PatternPlacement {
+    const span = getPatternLaneSpan(pattern);
+    return {
+      baseLane: this.rng.int(this.lanes.length - span + 1),
+      span,
+      mirrored: this.rng.chance(0.5),
+    };
+  }
+  
+  /**
+   * Find a placement for an obstacle pattern that keeps the track solvable
+   * Starts from a random placement and tries the others in turn, preferring ones that don't stack
+   * walls in a lane that was only just used
+   * @param frontZ Z position the pattern's first row would spawn at
+   * @returns The placement, or null if every placement would create an unwinnable situation
+   */
+  private findSolvablePlacement(pattern: SpawnPattern, frontZ: number): PatternPlacement | null {
+    const config = this.config;
+    const start = this.placePattern(pattern);
+    const baseLaneCount = this.lanes.length - start.span + 1;
+    
+    // The rows will arrive at least as fast as the un-slowed speed once they reach the board
+    const arrivalSpeed = this.getFullSpeed(this.distance + config.boardZ - frontZ);
+    const laneChangeTime = getLaneChangeTime(config);
+    const sameLaneGap = arrivalSpeed * (config.reactionTime + laneChangeTime) * SAME_LANE_DODGES;
+    
+    let fallback: PatternPlacement | null = null;
+    for (let index = 0; index < baseLaneCount * 2; index++) {
+      const candidate: PatternPlacement = {
+        baseLane: (start.baseLane + index) % baseLaneCount,
+        span: start.span,
+        mirrored: index < baseLaneCount ? start.mirrored : !start.mirrored,
+      };
+      
+      // Reject anything that leaves no way through
+      const placed = this.getPatternObstacles(pattern, candidate, frontZ);
+      const rows = getTrackRows([...this.obstacles, ...placed], this.lanes.length, config.boardZ, arrivalSpeed);
+      if (!isTrackSolvable(this.board.lane, rows, laneChangeTime, config.reactionTime)) continue;
+      
+      // Don't put a wall in the same lane as an obstacle that was only just spawned
+      const tooClose = placed.some(obstacle =>
+        obstacle.type !== ObstacleType.OVERHEAD_BEAM && this.obstacles.some(existing =>
+          getArrivalLane(existing) === getArrivalLane(obstacle) && existing.z >= obstacle.z && existing.z - obstacle.z < sameLaneGap
+        )
+      );
+      if (!tooClose) return candidate;
+      fallback = fallback ?? candidate;
+    }
+    
+    return fallback;
+  }
+  
+  /**
+   * Get the track lane of a pattern-relative lane
+   */
+  private getPlacedLane(placement: PatternPlacement, lane: number): number {
+    return placement.baseLane + (placement.mirrored ? placement.span - 1 - lane : lane);
+  }
+  
+  /**
+   * Count the obstacles a pattern spawns
+   */
+  private countPatternObstacles(pattern: SpawnPattern): number {
+    return pattern.rows.reduce((count, row) => count + (row.obstacles?.length ?? 0), 0);
+  }
+  
+  /**
+   * Get the obstacles a pattern would place on the track
+   */
+  private getPatternObstacles(pattern: SpawnPattern, placement: PatternPlacement, frontZ: number): ObstaclePlacement[] {
+    const obstacles: ObstaclePlacement[] = [];
+    
+    for (const row of pattern.rows) {
+      for (const obstacle of row.obstacles ?? []) {
+        // Overhead beams span the whole track - keep them centered
+        const lane = obstacle.type === 'overheadBeam'
+          ? Math.floor(this.lanes.length / 2)
+          : this.getPlacedLane(placement, obstacle.lane ?? 0);
+        
+        const placed: ObstaclePlacement = { type: PATTERN_OBSTACLE_TYPES[obstacle.type], lane, z: frontZ - row.z };
+        
+        // Laser gates blink on the shared rhythm, offset by the pattern's phase
+        if (obstacle.type === 'laserGate') {
+          placed.phase = obstacle.phase ?? 0;
+          placed.lit = this.isLaserLit(placed.phase);
+        }
+        
+        // Sliding walls move into their second lane on a fixed schedule
+        if (obstacle.toLane !== undefined && obstacle.type === 'slidingWall') {
+          placed.slide = {
+            fromLane: lane,
+            toLane: this.getPlacedLane(placement, obstacle.toLane),
+            startZ: this.config.slideStartZ,
+            endZ: this.config.slideEndZ,
+          };
+        }
+        
+        obstacles.push(placed);
+      }
+    }
+    
+    return obstacles;
+  }
+  
+  /**
+   * Spawn every row of a pattern
+   * @param pattern Pattern to spawn
+   * @param placement Where the pattern goes on the track
+   * @param frontZ Z position of the pattern's first row
+   */
+  private spawnPattern(pattern: SpawnPattern, placement: PatternPlacement, frontZ: number): void {
+    for (const obstacle of this.getPatternObstacles(pattern, placement, frontZ)) {
+      this.obstacles.push({
+        id: this.nextEntityId++,
+        ...obstacle,
+        x: this.lanes[obstacle.lane],
+        previousX: this.lanes[obstacle.lane],
+        previousZ: obstacle.z,
+      });
+    }
+    
+    for (const row of pattern.rows) {
+      const z = frontZ - row.z;
+      
+      for (const crystalLane of row.crystals ?? []) {
+        if (this.crystals.length >= this.config.maxCrystals) break;
+        
+        const lane = this.getPlacedLane(placement, crystalLane);
+        this.crystals.push({ id: this.nextEntityId++, lane, x: this.lanes[lane], z, previousZ: z });
+      }
+    }
+  }
+  
+  /**
+   * Spawn a new power-up
+   */
+  private spawnPowerUp(): void {
+    const config = this.config;
+    
+    if (this.powerUps.length < config.maxPowerUps) {
+      const type = this.rng.pick(POWER_UP_TYPES);
+      const z = config.powerUpSpawnZ;
+      
+      // Prefer a lane that isn't about to be blocked by a freshly spawned obstacle
+      let lane = this.rng.int(this.lanes.length);
+      const blocked = (candidate: number) => this.obstacles.some(obstacle =>
+        obstacle.lane === candidate && Math.abs(obstacle.z - z) < 15
+      );
+      for (let attempt = 0; attempt < this.lanes.length - 1 && blocked(lane); attempt++) {
+        lane = (lane + 1) % this.lanes.length;
+      }
+      
+      this.powerUps.push({ id: this.nextEntityId++, type, lane, x: this.lanes[lane], z, previousZ: z });
+    }
+    
+    this.nextPowerUpTime = this.time + this.rng.range(config.minPowerUpSpacing, config.maxPowerUpSpacing);
+  }
+  
+  /**
+   * Move everything on the track towards the player and drop what's behind them
+   */
+  private moveEntities(deltaTime: number): void {
+    const config = this.config;
+    const travel = this.speed * deltaTime;
+    
+    for (const entity of [...this.obstacles, ...this.crystals, ...this.powerUps]) {
+      entity.previousZ = entity.z;
+      entity.z += travel;
+    }
+    
+    // Slide sliding walls across as they approach and blink laser gates
+    for (const obstacle of this.obstacles) {
+      obstacle.previousX = obstacle.x;
+      if (obstacle.slide) {
+        this.updateSlide(obstacle, obstacle.slide);
+      }
+      if (obstacle.type === ObstacleType.LASER_GATE) {
+        obstacle.lit = this.isLaserLit(obstacle.phase ?? 0);
+      }
+    }
+    
+    // Pull crystals in from adjacent lanes while the magnet is active
+    if (this.isPowerUpActive('magnet')) {
+      const pull = config.magnetPullSpeed * deltaTime;
+      for (const crystal of this.crystals) {
+        if (Math.abs(crystal.lane - this.board.lane) <= 1 && crystal.z > -config.magnetRange && crystal.z < config.boardZ + 3) {
+          const diff = this.board.x - crystal.x;
+          crystal.x += Math.sign(diff) * Math.min(pull, Math.abs(diff));
+        }
+      }
+    }
+    
+    // Obstacles that made it past the player are worth points
+    this.obstacles = this.obstacles.filter(obstacle => {
+      if (obstacle.z <= config.despawnZ) return true;
+      
+      this.score += config.obstaclePoints;
+      this.obstaclesPassed++;
+      this.addMultiplierBonus(config.obstaclePoints);
+      this.addComboBonus(config.obstaclePoints);
+      this.adaptive.onObstaclePassed();
+      this.events.push({ type: 'obstaclePassed', obstacle });
+      return false;
+    });
+    
+    this.crystals = this.crystals.filter(crystal => crystal.z <= config.despawnZ);
+    this.powerUps = this.powerUps.filter(powerUp => powerUp.z <= config.despawnZ);
+  }
+  
+  /**
+   * Move a sliding wall to where its slide schedule puts it at its current z
+   */
+  private updateSlide(obstacle: ObstacleEntity, slide: ObstacleSlide): void {
+    const progress = Math.min(Math.max((obstacle.z - slide.startZ) / (slide.endZ - slide.startZ), 0), 1);
+    const eased = progress * progress * (3 - 2 * progress); // Ease in and out of the slide
+    
+    const fromX = this.lanes[slide.fromLane];
+    const toX = this.lanes[slide.toLane];
+    obstacle.x = fromX + (toX - fromX) * eased;
+    
+    // The wall counts as being in whichever lane it's closest to
+    const laneOffset = (slide.toLane - slide.fromLane) * eased;
+    obstacle.lane = slide.fromLane + Math.round(laneOffset);
+  }
+  
+  /**
+   * Check if a laser gate is in the lethal part of its blink cycle
+   * @param phase Offset into the cycle (0-1)
+   */
+  private isLaserLit(phase: number): boolean {
+    const config = this.config;
+    
+    // On the beat: lit for one beat, dark for the next
+    const beat = config.musicBpm ? 60 / config.musicBpm : 0;
+    const onTime = beat || config.laserOnTime;
+    const cycle = beat ? beat * 2 : config.laserOnTime + config.laserOffTime;
+    
+    // Count the beats from the music's first beat, starting over each time it loops
+    let time = this.time;
+    if (beat) {
+      time = (config.musicLength > 0 ? time % config.musicLength : time) - config.musicFirstBeat;
+    }
+    
+    const position = (time / cycle + phase) % 1;
+    const cycleTime = (position < 0 ? position + 1 : position) * cycle;
+    return cycleTime < onTime;
+  }
+  
+  /**
+   * Advance the board's lateral movement, duck and jump
+   */
+  private stepBoard(deltaTime: number): void {
+    const config = this.config;
+    const board = this.board;
+    
+    // Remember where the board was so rendering can interpolate between steps
+    board.previousX = board.x;
+    board.previousHeight = board.hoverHeight + board.jumpHeight;
+    
+    // Update move cooldown
+    if (board.moveCooldown > 0) {
+      board.moveCooldown -= deltaTime;
+    }
+    
+    // Update duck timer
+    if (board.duckTimer > 0) {
+      board.duckTimer -= deltaTime;
+    }
+    
+    // Ease the hover height towards the duck or standing height
+    const targetHoverHeight = board.duckTimer > 0 ? config.duckingHoverHeight : config.standingHoverHeight;
+    const hoverDiff = targetHoverHeight - board.hoverHeight;
+    board.hoverHeight += Math.sign(hoverDiff) * Math.min(config.duckTransitionSpeed * deltaTime, Math.abs(hoverDiff));
+    
+    // Handle jump arc (simple ballistic motion until the board lands again)
+    if (board.airborne) {
+      board.jumpHeight += board.verticalVelocity * deltaTime;
+      board.verticalVelocity -= config.gravity * deltaTime;
+      
+      if (board.jumpHeight <= 0) {
+        board.airborne = false;
+        board.jumpHeight = 0;
+        board.verticalVelocity = 0;
+      }
+    }
+    
+    // Handle lateral movement (smooth transition to target position)
+    const lateralDiff = board.targetX - board.x;
+    if (Math.abs(lateralDiff) > 0.01) {
+      board.x += Math.sign(lateralDiff) * Math.min(config.lateralSpeed * deltaTime, Math.abs(lateralDiff));
+    }
+  }
+  
+  /**
+   * Tick down the active power-up effects
+   */
+  private updatePowerUpTimers(deltaTime: number): void {
+    for (const type of POWER_UP_TYPES) {
+      const remaining = this.powerUpTimers[type];
+      if (remaining === undefined) continue;
+      
+      if (remaining - deltaTime <= 0) {
+        delete this.powerUpTimers[type];
+      } else {
+        this.powerUpTimers[type] = remaining - deltaTime;
+      }
+    }
+  }
+  
+  /**
+   * Drop the combo a level each time its timer runs out
+   */
+  private updateCombo(deltaTime: number): void {
+    if (this.combo === 0) return;
+    
+    this.comboTimer -= deltaTime;
+    if (this.comboTimer <= 0) {
+      this.combo--;
+      this.comboTimer = this.combo > 0 ? this.config.comboDecayTime : 0;
+    }
+  }
+  
+  /**
+   * Raise the combo a level and restart its timer
+   */
+  private extendCombo(): void {
+    this.combo++;
+    this.bestCombo = Math.max(this.bestCombo, this.combo);
+    this.comboTimer = this.config.comboDecayTime;
+  }
+  
+  /**
+   * Award the extra points the combo multiplier adds on top of some points
+   */
+  private addComboBonus(points: number): void {
+    const bonus = points * (this.getComboMultiplier() - 1);
+    this.comboBonus += bonus;
+    this.addMultiplierBonus(bonus);
+  }
+  
+  /**
+   * Check for collisions between the board and obstacles, crystals and power-ups
+   */
+  private checkCollisions(): void {
+    const board = this.board;
+    const boardBox = getBoardBox(board, this.config.boardZ);
+    
+    // Nothing can hit the board for a moment after a revive
+    const obstacles = this.invulnerableTimer > 0 ? [] : this.obstacles;
+    
+    for (const obstacle of obstacles) {
+      // Low obstacles can't hit the board while it's in the air
+      if (obstacle.type === ObstacleType.LOW_BARRIER && board.airborne) continue;
+      
+      // Overhead obstacles can only be passed underneath while ducking
+      if (obstacle.type === ObstacleType.OVERHEAD_BEAM && isDucking(board)) continue;
+      
+      // Laser gates are harmless while dark
+      if (obstacle.type === ObstacleType.LASER_GATE && !obstacle.lit) continue;
+      
+      const hit = getObstacleBoxes(obstacle, this.lanes, this.config.laneWidth).some(box => boxesIntersect(boardBox, box));
+      if (hit) {
+        this.handleObstacleCollision(obstacle);
+        break;
+      }
+    }
+    
+    if (!this.running) return;
+    
+    this.checkNearMisses(boardBox);
+    
+    this.crystals = this.crystals.filter(crystal => {
+      if (!boxesIntersect(boardBox, getPickupBox(crystal.x, crystal.z))) return true;
+      
+      this.crystalCount++;
+      this.crystalsCollected++;
+      this.addMultiplierBonus(this.config.crystalPoints);
+      this.addComboBonus(this.config.crystalPoints);
+      this.extendCombo();
+      this.events.push({ type: 'crystalCollected', crystal });
+      return false;
+    });
+    
+    this.powerUps = this.powerUps.filter(powerUp => {
+      if (!boxesIntersect(boardBox, getPickupBox(powerUp.x, powerUp.z))) return true;
+      
+      // Collecting the same power-up again refreshes its timer
+      this.powerUpTimers[powerUp.type] = this.config.powerUpDurations[powerUp.type];
+      this.events.push({ type: 'powerUpCollected', powerUp });
+      return false;
+    });
+  }
+  
+  /**
+   * Look for walls that just reached the board without hitting it
+   * Passing one with barely any room, or after leaving its lane at the last moment, is a near miss
+   */
+  private checkNearMisses(boardBox: Box): void {
+    const config = this.config;
+    if (this.invulnerableTimer > 0) return; // Nothing to miss while nothing can hit
+    
+    for (const obstacle of this.obstacles) {
+      // Each obstacle is only checked once, in the step it reaches the board
+      if (obstacle.previousZ >= config.boardZ || obstacle.z < config.boardZ) continue;
+      
+      // Only obstacles that close a lane can be dodged sideways
+      const open = getOpenLanes([obstacle], this.lanes.length);
+      if (!open.includes(false) || (obstacle.type === ObstacleType.LASER_GATE && !obstacle.lit)) continue;
+      
+      const laneChange = this.lastLaneChange;
+      const late = laneChange !== null && this.time - laneChange.time <= config.lateDodgeTime && !open[laneChange.fromLane];
+      const gap = Math.min(...getObstacleBoxes(obstacle, this.lanes, this.config.laneWidth).map(box => getLateralGap(boardBox, box)));
+      if (!late && gap > config.nearMissMargin) continue;
+      
+      this.nearMisses++;
+      this.nearMissScore += config.nearMissPoints;
+      this.addMultiplierBonus(config.nearMissPoints);
+      this.addComboBonus(config.nearMissPoints);
+      this.extendCombo();
+      this.adaptive.onNearMiss();
+      this.events.push({ type: 'nearMiss', obstacle, late });
+    }
+  }
+  
+  /**
+   * Handle the board hitting an obstacle
+   */
+  private handleObstacleCollision(obstacle: ObstacleEntity): void {
+    // An active shield absorbs the hit and is used up, destroying the obstacle
+    if (this.isPowerUpActive('shield')) {
+      delete this.powerUpTimers.shield;
+      this.obstacles = this.obstacles.filter(existing => existing !== obstacle);
+      this.events.push({ type: 'shieldAbsorbed', obstacle });
+      return;
+    }
+    
+    this.crashed = true;
+    this.stop();
+    this.events.push({ type: 'collision', obstacle });
+  }
+  
+  /**
+   * Award the points a second time while the score multiplier is active
+   */
+  private addMultiplierBonus(points: number): void {
+    if (this.isPowerUpActive('multiplier')) {
+      this.multiplierBonus += points;
+    }
+  }
+  
+  /**
+   * Check if a power-up effect is currently active
+   */
+  public isPowerUpActive(type: PowerUpType): boolean {
+    return this.powerUpTimers[type] !== undefined;
+  }
+  
+  /**
+   * Get how much the adaptive difficulty is currently easing the run (0-1)
+   */
+  public getAssist(): number {
+    return this.adaptive.getAssist();
+  }
+  
+  /**
+   * Get the events produced by the last step
+   */
+  public getEvents(): readonly SimulationEvent[] {
+    return this.events;
+  }
+  
+  /**
+   * Check if a run is in progress
+   */
+  public isRunning(): boolean {
+    return this.running;
+  }
+  
+  /**
+   * Check if the last run ended by hitting an obstacle
+   */
+  public hasCrashed(): boolean {
+    return this.crashed;
+  }
+  
+  /**
+   * Get the tuning values in use
+   */
+  public getConfig(): SimulationConfig {
+    return this.config;
+  }
+  
+  /**
+   * Get the seed of the current run
+   */
+  public getSeed(): number {
+    return this.rng.getSeed();
+  }
+  
+  /**
+   * Get the lateral position of every lane
+   */
+  public getLanes(): readonly number[] {
+    return this.lanes;
+  }
+  
+  /**
+   * Get the number of steps since the run started
+   */
+  public getTick(): number {
+    return this.tick;
+  }
+  
+  /**
+   * Get the simulated time since the run started
+   */
+  public getTime(): number {
+    return this.time;
+  }
+  
+  /**
+   * Get the distance traveled in this run
+   */
+  public getDistance(): number {
+    return this.distance;
+  }
+  
+  /**
+   * Get the current world speed
+   */
+  public getSpeed(): number {
+    return this.speed;
+  }
+  
+  /**
+   * Get the points earned for passing obstacles
+   */
+  public getScore(): number {
+    return this.score;
+  }
+  
+  /**
+   * Get the number of crystals in hand (collected, minus any spent on a revive)
+   */
+  public getCrystalCount(): number {
+    return this.crystalCount;
+  }
+  
+  /**
+   * Get the number of crystals collected over the whole run
+   */
+  public getCrystalsCollected(): number {
+    return this.crystalsCollected;
+  }
+  
+  /**
+   * Get the points earned from crystals - spending crystals on a revive doesn't take them back
+   */
+  public getCrystalScore(): number {
+    return this.crystalsCollected * this.config.crystalPoints;
+  }
+  
+  /**
+   * Get the number of obstacles that made it past the player
+   */
+  public getObstaclesPassed(): number {
+    return this.obstaclesPassed;
+  }
+  
+  /**
+   * Get the highest world speed reached in this run
+   */
+  public getMaxSpeed(): number {
+    return this.maxSpeed;
+  }
+  
+  /**
+   * Get the time left before obstacles can hit the board again after a revive
+   */
+  public getInvulnerableTime(): number {
+    return this.invulnerableTimer;
+  }
+  
+  /**
+   * Get the number of near misses this run
+   */
+  public getNearMisses(): number {
+    return this.nearMisses;
+  }
+  
+  /**
+   * Get the points earned from near misses
+   */
+  public getNearMissScore(): number {
+    return this.nearMissScore;
+  }
+  
+  /**
+   * Get the current combo level
+   */
+  public getCombo(): number {
+    return this.combo;
+  }
+  
+  /**
+   * Get the highest combo level reached this run
+   */
+  public getBestCombo(): number {
+    return this.bestCombo;
+  }
+  
+  /**
+   * Get the score multiplier of the current combo
+   */
+  public getComboMultiplier(): number {
+    return Math.min(1 + this.combo * this.config.comboStep, this.config.maxComboMultiplier);
+  }
+  
+  /**
+   * Get the time until the combo drops a level
+   */
+  public getComboTimer(): number {
+    return this.comboTimer;
+  }
+  
+  /**
+   * Get the extra points earned through the combo multiplier
+   */
+  public getComboBonus(): number {
+    return this.comboBonus;
+  }
+  
+  /**
+   * Get the extra points earned under the score multiplier
+   */
+  public getMultiplierBonus(): number {
+    return this.multiplierBonus;
+  }
+  
+  /**
+   * Get the remaining time of each active power-up effect
+   */
+  public getActivePowerUps(): ActivePowerUps {
+    return this.powerUpTimers;
+  }
+  
+  /**
+   * Get the board state
+   */
+  public getBoard(): Readonly<BoardState> {
+    return this.board;
+  }
+  
+  /**
+   * Check if the board is ducking
+   */
+  public isBoardDucking(): boolean {
+    return isDucking(this.board);
+  }
+  
+  /**
+   * Get the obstacles on the track
+   */
+  public getObstacles(): readonly ObstacleEntity[] {
+    return this.obstacles;
+  }
+  
+  /**
+   * Get the crystals on the track
+   */
+  public getCrystals(): readonly CrystalEntity[] {
+    return this.crystals;
+  }
+  
+  /**
+   * Get the power-ups on the track
+   */
+  public getPowerUps(): readonly PowerUpEntity[] {
+    return this.powerUps;
+  }
+}
@@ -0,0 +1,224 @@
+import { ObstacleType, SimulationEvent } from './SimulationTypes';
+
+// What a mission counts
+export type MissionStat =
+  | 'distance'         // Meters travelled
+  | 'crystals'         // Crystals collected (before any are spent on a revive)
+  | 'obstaclesPassed'  // Obstacles that made it past the board (optionally of one type)
+  | 'nearMisses'
+  | 'powerUps'         // Power-ups collected
+  | 'laneHold'         // Longest time (in seconds) without changing lanes
+  | 'runs';            // Runs played
+
+/**
+ * A goal for the player
+ * Missions are met within a single run, achievements add up over every run
+ */
+export interface Mission {
+  id: string;
+  title: string;
+  description: string;
+  scope: 'run' | 'total';
+  stat: MissionStat;
+  target: number;
+  reward: number;              // Crystals added to the wallet when completed
+  obstacleType?: ObstacleType; // obstaclesPassed: only count this type of obstacle
+  minDistance?: number;        // laneHold: only count time after reaching this distance
+}
+
+// Every mission and achievement, in the order they are listed
+export const MISSIONS: Mission[] = [
+  {
+    id: 'run-distance-1000',
+    title: 'Long Haul',
+    description: 'Reach 1000 m in one run',
+    scope: 'run',
+    stat: 'distance',
+    target: 1000,
+    reward: 25,
+  },
+  {
+    id: 'run-crystals-30',
+    title: 'Crystal Hoarder',
+    description: 'Collect 30 crystals in one run',
+    scope: 'run',
+    stat: 'crystals',
+    target: 30,
+    reward: 25,
+  },
+  {
+    id: 'run-near-misses-10',
+    title: 'Daredevil',
+    description: 'Get 10 near misses in one run',
+    scope: 'run',
+    stat: 'nearMisses',
+    target: 10,
+    reward: 30,
+  },
+  {
+    id: 'run-steady-1500',
+    title: 'Steady Hands',
+    description: 'Past 1500 m, ride 10 s without changing lanes',
+    scope: 'run',
+    stat: 'laneHold',
+    minDistance: 1500,
+    target: 10,
+    reward: 50,
+  },
+  {
+    id: 'total-runs-10',
+    title: 'Regular',
+    description: 'Play 10 runs',
+    scope: 'total',
+    stat: 'runs',
+    target: 10,
+    reward: 20,
+  },
+  {
+    id: 'total-power-ups-25',
+    title: 'Power Hungry',
+    description: 'Collect 25 power-ups',
+    scope: 'total',
+    stat: 'powerUps',
+    target: 25,
+    reward: 40,
+  },
+  {
+    id: 'total-double-walls-20',
+    title: 'Wall Weaver',
+    description: 'Pass 20 double walls',
+    scope: 'total',
+    stat: 'obstaclesPassed',
+    obstacleType: ObstacleType.DOUBLE_WALL,
+    target: 20,
+    reward: 40,
+  },
+  {
+    id: 'total-beams-100',
+    title: 'Limbo Legend',
+    description: 'Duck under 100 overhead beams',
+    scope: 'total',
+    stat: 'obstaclesPassed',
+    obstacleType: ObstacleType.OVERHEAD_BEAM,
+    target: 100,
+    reward: 50,
+  },
+  {
+    id: 'total-crystals-500',
+    title: 'Crystal Baron',
+    description: 'Collect 500 crystals',
+    scope: 'total',
+    stat: 'crystals',
+    target: 500,
+    reward: 100,
+  },
+  {
+    id: 'total-distance-25000',
+    title: 'Marathon',
+    description: 'Travel 25 km',
+    scope: 'total',
+    stat: 'distance',
+    target: 25000,
+    reward: 100,
+  },
+];
+
+/**
+ * Tracks how far a single run gets towards every mission
+ *
+ * The scene feeds it the events and board position of each simulation step.
+ * It only counts - saving the progress and paying out rewards is up to the store.
+ */
+export class MissionTracker {
+  private progress = new Map<string, number>();
+  private lane = -1;
+  private laneSince = 0;                        // Time of the last lane change
+  private reachedAt = new Map<string, number>(); // laneHold missions: time their minDistance was reached
+  
+  /**
+   * Start counting a new run
+   */
+  public start(): void {
+    this.progress.clear();
+    this.reachedAt.clear();
+    this.lane = -1;
+    this.laneSince = 0;
+    this.add('runs', 1);
+  }
+  
+  /**
+   * Count a simulation event
+   */
+  public handleEvent(event: SimulationEvent): void {
+    switch (event.type) {
+      case 'crystalCollected':
+        this.add('crystals', 1);
+        break;
+      
+      case 'powerUpCollected':
+        this.add('powerUps', 1);
+        break;
+      
+      case 'nearMiss':
+        this.add('nearMisses', 1);
+        break;
+      
+      case 'obstaclePassed':
+        this.add('obstaclesPassed', 1, event.obstacle.type);
+        break;
+    }
+  }
+  
+  /**
+   * Follow the board after a simulation step
+   * @param distance Distance travelled
+   * @param time Time into the run
+   * @param lane Lane the board is in (or moving into)
+   */
+  public update(distance: number, time: number, lane: number): void {
+    if (lane !== this.lane) {
+      this.lane = lane;
+      this.laneSince = time;
+    }
+    
+    for (const mission of MISSIONS) {
+      if (mission.stat === 'distance') {
+        this.progress.set(mission.id, distance);
+      } else if (mission.stat === 'laneHold') {
+        // The clock starts at the later of the last lane change and reaching the distance
+        const minDistance = mission.minDistance ?? 0;
+        if (distance < minDistance) continue;
+        if (!this.reachedAt.has(mission.id)) {
+          this.reachedAt.set(mission.id, time);
+        }
+        const held = time - Math.max(this.laneSince, this.reachedAt.get(mission.id)!);
+        this.progress.set(mission.id, Math.max(this.getProgress(mission.id), held));
+      }
+    }
+  }
+  
+  /**
+   * Get how far the run got towards a mission
+   */
+  public getProgress(id: string): number {
+    return this.progress.get(id) ?? 0;
+  }
+  
+  /**
+   * Get the run's progress towards every mission it moved forward
+   */
+  public getRunProgress(): Record<string, number> {
+    return Object.fromEntries(this.progress);
+  }
+  
+  /**
+   * Count towards every mission of a stat
+   */
+  private add(stat: MissionStat, amount: number, obstacleType?: ObstacleType): void {
+    for (const mission of MISSIONS) {
+      if (mission.stat !== stat) continue;
+      if (mission.obstacleType !== undefined && mission.obstacleType !== obstacleType) continue;
+      this.progress.set(mission.id, this.getProgress(mission.id) + amount);
+    }
+  }
+}
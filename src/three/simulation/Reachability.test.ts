@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { GameSimulation } from './GameSimulation';
+import { DEFAULT_DIFFICULTY, DIFFICULTY_IDS, applyDifficulty } from './Difficulty';
+import { getLaneChangeTime, getReachableLanes, getTrackRows, isTrackSolvable, TrackRow } from './Reachability';
+import { DEFAULT_SIMULATION_CONFIG, MAX_LANE_COUNT, MIN_LANE_COUNT } from './SimulationConfig';
+import { BoardAction, ObstacleType } from './SimulationTypes';
+import { TEST_STEP } from './testHelpers';
+
+// Seeds fuzzed for every difficulty and lane count
+const SEEDS_PER_LAYOUT = 200;
+
+// Seeds fuzzed on the default difficulty and track, which most runs are played on
+const DEFAULT_LAYOUT_SEEDS = 2000;
+
+// Seeds fuzzed in each test
+const SEEDS_PER_TEST = 200;
+
+// Longest stretch of each run to check (steps)
+const MAX_TICKS = 60 * 60;
+
+// How long before a low barrier or overhead beam arrives the bot jumps or ducks (seconds)
+const JUMP_LEAD_TIME = 0.25;
+
+/**
+ * Find the lanes the board can take through the next row and still get through every row after it
+ */
+function getRouteLanes(startLane: number, rows: TrackRow[], laneChangeTime: number, reactionTime: number): boolean[] {
+  // Work back from the last row to the lanes that still lead all the way through
+  const onRoute = getReachableLanes(startLane, rows, laneChangeTime, reactionTime);
+  for (let index = rows.length - 2; index >= 0; index--) {
+    const elapsed = rows[index + 1].time - rows[index].clearTime - reactionTime;
+    const maxChanges = Math.max(0, Math.floor(elapsed / laneChangeTime));
+    onRoute[index] = onRoute[index].map((open, lane) =>
+      open && onRoute[index + 1].some((next, target) => next && Math.abs(target - lane) <= maxChanges)
+    );
+  }
+  
+  return onRoute.length > 0 ? onRoute[0] : [];
+}
+
+/**
+ * Pick the actions of a bot that follows a route through every row ahead
+ * The route comes from the reachability model, but whether the board really gets through is up to the
+ * simulation's own movement and collisions
+ */
+function getRouteActions(simulation: GameSimulation, laneChangeTime: number): BoardAction[] {
+  const config = simulation.getConfig();
+  const board = simulation.getBoard();
+  const obstacles = simulation.getObstacles();
+  const speed = simulation.getSpeed();
+  const actions: BoardAction[] = [];
+  
+  // Keep the spawner's reaction time in hand where the track allows it, as the speed keeps creeping up
+  const rows = getTrackRows(obstacles, config.laneCount, config.boardZ, speed);
+  const targets = [config.reactionTime, 0]
+    .map(reactionTime => getRouteLanes(board.lane, rows, laneChangeTime, reactionTime))
+    .find(lanes => lanes.includes(true)) ?? [];
+  
+  // Head for the nearest lane on the route through the next row
+  let target = board.lane;
+  for (let lane = 0; lane < targets.length; lane++) {
+    if (targets[lane] && (!targets[target] || Math.abs(lane - board.lane) < Math.abs(target - board.lane))) {
+      target = lane;
+    }
+  }
+  if (target !== board.lane) {
+    actions.push(target > board.lane ? 'right' : 'left');
+  }
+  
+  // Get over or under whatever is about to reach the board
+  for (const obstacle of obstacles) {
+    const arrival = (config.boardZ - obstacle.z) / speed;
+    if (arrival < 0 || arrival > JUMP_LEAD_TIME) continue;
+    
+    if (obstacle.type === ObstacleType.LOW_BARRIER && obstacle.lane === board.lane && !board.airborne) {
+      actions.push('jump');
+    }
+    if (obstacle.type === ObstacleType.OVERHEAD_BEAM && !simulation.isBoardDucking()) {
+      actions.push('duck');
+    }
+  }
+  
+  return actions;
+}
+
+describe('solvable spawning', () => {
+  for (const difficulty of DIFFICULTY_IDS) {
+    for (let laneCount = MIN_LANE_COUNT; laneCount <= MAX_LANE_COUNT; laneCount++) {
+      const isDefaultLayout = difficulty === DEFAULT_DIFFICULTY && laneCount === DEFAULT_SIMULATION_CONFIG.laneCount;
+      const seeds = isDefaultLayout ? DEFAULT_LAYOUT_SEEDS : SEEDS_PER_LAYOUT;
+      
+      // One test per batch of seeds, so no single test keeps the worker busy for long
+      for (let firstSeed = 1; firstSeed <= seeds; firstSeed += SEEDS_PER_TEST) {
+        const lastSeed = Math.min(seeds, firstSeed + SEEDS_PER_TEST - 1);
+        
+        it(`always leaves a way through on ${difficulty} with ${laneCount} lanes (seeds ${firstSeed}-${lastSeed})`, async () => {
+          // Let the worker report back to the runner between batches
+          await new Promise(resolve => setTimeout(resolve));
+          
+          const config = applyDifficulty(difficulty, { ...DEFAULT_SIMULATION_CONFIG, laneCount });
+          const laneChangeTime = getLaneChangeTime(config);
+          let spawns = 0;
+          
+          for (let seed = firstSeed; seed <= lastSeed; seed++) {
+            const simulation = new GameSimulation(config);
+            simulation.start(seed, config);
+            const seen = new Set<number>();
+            
+            while (simulation.isRunning() && simulation.getTick() < MAX_TICKS) {
+              for (const action of getRouteActions(simulation, laneChangeTime)) {
+                simulation.applyAction(action);
+              }
+              simulation.step(TEST_STEP);
+              
+              const obstacles = simulation.getObstacles();
+              const spawned = obstacles.filter(obstacle => !seen.has(obstacle.id));
+              if (spawned.length === 0) continue;
+              spawned.forEach(obstacle => seen.add(obstacle.id));
+              spawns++;
+              
+              // Rebuild the track as the spawner saw it: entities spawn before they move, at their previous z
+              const track = obstacles.map(obstacle => ({ ...obstacle, z: obstacle.previousZ }));
+              const frontZ = Math.max(...spawned.map(obstacle => obstacle.previousZ));
+              const speed = simulation.getFullSpeed(simulation.getDistance() + config.boardZ - frontZ);
+              const rows = getTrackRows(track, laneCount, config.boardZ, speed);
+              
+              const solvable = isTrackSolvable(simulation.getBoard().lane, rows, laneChangeTime, config.reactionTime);
+              expect(solvable, `seed ${seed}, tick ${simulation.getTick()}`).toBe(true);
+            }
+            
+            // The model only picked the route - the simulation's own collisions decide if the board made it
+            expect(simulation.hasCrashed(), `seed ${seed} crashed at tick ${simulation.getTick()}`).toBe(false);
+          }
+          
+          expect(spawns).toBeGreaterThan(lastSeed - firstSeed + 1);
+        }, SEEDS_PER_TEST * 100);
+      }
+    }
+  }
+});
@@ -0,0 +1,157 @@
+import { getBoardOverlap } from './Collision';
+import { SimulationConfig } from './SimulationConfig';
+import { ObstacleEntity, ObstacleType } from './SimulationTypes';
+
+// Obstacles closer together than this (in z) are treated as one row
+const ROW_TOLERANCE = 0.5;
+
+// The parts of an obstacle that matter for reachability
+export type ObstaclePlacement = Pick<ObstacleEntity, 'type' | 'lane' | 'z' | 'slide' | 'phase' | 'lit'>;
+
+/**
+ * A row of obstacles the board will have to get through
+ */
+export interface TrackRow {
+  time: number;       // Seconds until the row reaches the front of the board
+  clearTime: number;  // Seconds until the row has passed the back of the board
+  open: boolean[];    // Whether each lane can be passed (by riding, jumping or ducking)
+}
+
+/**
+ * Get the time a lane change takes, limited by the cooldown or the lateral speed, whichever is slower
+ */
+export function getLaneChangeTime(config: SimulationConfig): number {
+  return Math.max(config.moveCooldown, config.laneWidth / config.lateralSpeed);
+}
+
+/**
+ * Get the lane an obstacle will be in when it reaches the board
+ * Sliding walls always finish their slide before reaching the board
+ */
+export function getArrivalLane(obstacle: ObstaclePlacement): number {
+  return obstacle.slide ? obstacle.slide.toLane : obstacle.lane;
+}
+
+/**
+ * Get which lanes a row of obstacles leaves open
+ * Low barriers and overhead beams can always be jumped or ducked, so only walls close lanes
+ * Laser gates count as closed too - when exactly they arrive depends on the speed, so the
+ * spawner never relies on one being dark
+ */
+export function getOpenLanes(obstacles: readonly ObstaclePlacement[], laneCount: number): boolean[] {
+  const open = new Array<boolean>(laneCount).fill(true);
+  
+  for (const obstacle of obstacles) {
+    if (obstacle.type === ObstacleType.WALL || obstacle.type === ObstacleType.SLIDING_WALL ||
+        obstacle.type === ObstacleType.LASER_GATE) {
+      open[getArrivalLane(obstacle)] = false;
+    } else if (obstacle.type === ObstacleType.DOUBLE_WALL) {
+      // Everything but the gap is walled off
+      for (let lane = 0; lane < laneCount; lane++) {
+        if (lane !== obstacle.lane) open[lane] = false;
+      }
+    }
+  }
+  
+  return open;
+}
+
+/**
+ * Group the obstacles that haven't passed the board yet into rows, nearest first
+ * A row takes a while to pass the length of the board, and the board can't leave its lane until it has
+ * @param obstacles Obstacles on the track
+ * @param laneCount Lanes on the track
+ * @param boardZ Z position of the board
+ * @param speed Speed the track will be moving at (use the fastest expected speed to stay on the safe side)
+ */
+export function getTrackRows(
+  obstacles: readonly ObstaclePlacement[],
+  laneCount: number,
+  boardZ: number,
+  speed: number
+): TrackRow[] {
+  const overlap = getBoardOverlap(boardZ);
+  const ahead = obstacles
+    .filter(obstacle => obstacle.z < overlap.end)
+    .sort((a, b) => b.z - a.z);
+  
+  const rows: TrackRow[] = [];
+  let rowObstacles: ObstaclePlacement[] = [];
+  const flush = () => {
+    if (rowObstacles.length === 0) return;
+    rows.push({
+      time: (overlap.start - rowObstacles[0].z) / speed,
+      clearTime: (overlap.end - rowObstacles[rowObstacles.length - 1].z) / speed,
+      open: getOpenLanes(rowObstacles, laneCount),
+    });
+    rowObstacles = [];
+  };
+  
+  for (const obstacle of ahead) {
+    if (rowObstacles.length > 0 && rowObstacles[0].z - obstacle.z > ROW_TOLERANCE) {
+      flush();
+    }
+    rowObstacles.push(obstacle);
+  }
+  flush();
+  
+  return rows;
+}
+
+/**
+ * Find the lanes the board can be in when each row reaches it
+ * @param startLane Lane the board is in (or moving into)
+ * @param rows Rows ahead of the board, nearest first
+ * @param laneChangeTime Time a single lane change takes
+ * @param reactionTime Time to react before the first lane change between two rows
+ * @returns The reachable lanes at each row - a row with no reachable lane can't be survived
+ */
+export function getReachableLanes(
+  startLane: number,
+  rows: readonly TrackRow[],
+  laneChangeTime: number,
+  reactionTime: number
+): boolean[][] {
+  const result: boolean[][] = [];
+  if (rows.length === 0) return result;
+  
+  const laneCount = rows[0].open.length;
+  let reachable = new Array<boolean>(laneCount).fill(false);
+  reachable[startLane] = true;
+  let time = 0;
+  
+  for (const row of rows) {
+    // Lanes that can be switched across between the last row passing and this one arriving
+    const elapsed = row.time - time;
+    const maxChanges = elapsed > reactionTime ? Math.floor((elapsed - reactionTime) / laneChangeTime) : 0;
+    
+    const next = new Array<boolean>(laneCount).fill(false);
+    for (let lane = 0; lane < laneCount; lane++) {
+      if (!reachable[lane]) continue;
+      const from = Math.max(0, lane - maxChanges);
+      const to = Math.min(laneCount - 1, lane + maxChanges);
+      for (let target = from; target <= to; target++) {
+        next[target] = next[target] || row.open[target];
+      }
+    }
+    
+    result.push(next);
+    reachable = next;
+    time = Math.max(time, row.clearTime);
+  }
+  
+  return result;
+}
+
+/**
+ * Check if there is a way through every row ahead
+ */
+export function isTrackSolvable(
+  startLane: number,
+  rows: readonly TrackRow[],
+  laneChangeTime: number,
+  reactionTime: number
+): boolean {
+  const reachable = getReachableLanes(startLane, rows, laneChangeTime, reactionTime);
+  return reachable.every(lanes => lanes.includes(true));
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { GameSimulation } from './GameSimulation';
+import { REPLAY_VERSION, ReplayData, parseReplay, serializeReplay } from './Replay';
+import { ReplayPlayer } from './ReplayPlayer';
+import { ReplayRecorder } from './ReplayRecorder';
+import { DEFAULT_SIMULATION_CONFIG, MAX_LANE_COUNT, MIN_LANE_COUNT, SimulationConfig } from './SimulationConfig';
+import { BoardAction } from './SimulationTypes';
+import { applyDifficulty } from './Difficulty';
+import { TEST_STEP, getBotActions } from './testHelpers';
+
+// Longest run to record (steps)
+const MAX_TICKS = 60 * 180;
+
+/**
+ * Record a bot run the way the scene does: actions are logged against the step they're applied before,
+ * and only if the simulation takes them
+ */
+function recordRun(seed: number, config: SimulationConfig): { simulation: GameSimulation; replay: ReplayData } {
+  const simulation = new GameSimulation(config);
+  const recorder = new ReplayRecorder();
+  simulation.start(seed, config);
+  recorder.start(seed, config, TEST_STEP);
+  
+  const apply = (action: BoardAction) => {
+    const tick = simulation.getTick();
+    if (simulation.applyAction(action)) {
+      recorder.record(tick, action);
+    }
+  };
+  
+  while (simulation.getTick() < MAX_TICKS) {
+    if (!simulation.isRunning()) {
+      if (!simulation.canRevive()) break;
+      apply('revive');
+    }
+    
+    for (const action of getBotActions(simulation)) {
+      apply(action);
+    }
+    simulation.step(TEST_STEP);
+  }
+  simulation.stop();
+  
+  const replay = recorder.finish(simulation.getTick(), simulation.getDistance(), simulation.getScore());
+  if (!replay) throw new Error('Nothing was recorded');
+  return { simulation, replay };
+}
+
+/**
+ * Play a replay back into a fresh simulation, the way the scene does
+ */
+function playReplay(replay: ReplayData): GameSimulation {
+  const simulation = new GameSimulation(replay.config);
+  const player = new ReplayPlayer(replay);
+  simulation.start(replay.seed, replay.config);
+  
+  while (simulation.getTick() < replay.ticks) {
+    for (const action of player.getActions(simulation.getTick())) {
+      simulation.applyAction(action);
+    }
+    simulation.step(replay.fixedStep);
+  }
+  simulation.stop();
+  
+  return simulation;
+}
+
+describe('replay round-trip', () => {
+  it('plays a recorded run back to the same result', () => {
+    for (const seed of [1, 42, 1234]) {
+      const { simulation, replay } = recordRun(seed, applyDifficulty('normal', DEFAULT_SIMULATION_CONFIG));
+      expect(replay.inputs.length).toBeGreaterThan(0);
+      
+      const parsed = parseReplay(serializeReplay(replay));
+      expect(parsed).toEqual(replay);
+      
+      const playback = playReplay(parsed!);
+      expect(playback.getTick()).toBe(replay.ticks);
+      expect(playback.getDistance()).toBe(simulation.getDistance());
+      expect(playback.getScore()).toBe(simulation.getScore());
+      expect(playback.getCrystalCount()).toBe(simulation.getCrystalCount());
+      expect(playback.getObstaclesPassed()).toBe(simulation.getObstaclesPassed());
+      expect(playback.hasCrashed()).toBe(simulation.hasCrashed());
+      expect(playback.getBoard()).toEqual(simulation.getBoard());
+    }
+  });
+  
+  it('plays back runs on every track width', () => {
+    for (let laneCount = MIN_LANE_COUNT; laneCount <= MAX_LANE_COUNT; laneCount++) {
+      const config = { ...applyDifficulty('hard', DEFAULT_SIMULATION_CONFIG), laneCount };
+      const { simulation, replay } = recordRun(laneCount, config);
+      
+      const playback = playReplay(parseReplay(serializeReplay(replay))!);
+      expect(playback.getDistance()).toBe(simulation.getDistance());
+      expect(playback.getScore()).toBe(simulation.getScore());
+    }
+  });
+});
+
+describe('parseReplay', () => {
+  const { replay } = recordRun(1, applyDifficulty('normal', DEFAULT_SIMULATION_CONFIG));
+  
+  it('rejects anything that isn\'t a replay', () => {
+    expect(parseReplay('not json')).toBeNull();
+    expect(parseReplay('null')).toBeNull();
+    expect(parseReplay('{}')).toBeNull();
+  });
+  
+  it('rejects replays recorded under other rules', () => {
+    expect(parseReplay(serializeReplay({ ...replay, version: REPLAY_VERSION - 1 }))).toBeNull();
+  });
+  
+  it('rejects replays recorded at another step', () => {
+    expect(parseReplay(serializeReplay({ ...replay, fixedStep: 1 / 30 }))).toBeNull();
+  });
+  
+  it('rejects track layouts the game can\'t show', () => {
+    expect(parseReplay(serializeReplay({ ...replay, config: { ...replay.config, laneCount: MAX_LANE_COUNT + 2 } }))).toBeNull();
+  });
+  
+  it('rejects unknown actions', () => {
+    const inputs = [...replay.inputs, { tick: 1, action: 'fly' as BoardAction }];
+    expect(parseReplay(serializeReplay({ ...replay, inputs }))).toBeNull();
+  });
+});
@@ -0,0 +1,86 @@
+import { FIXED_STEP, MAX_LANE_COUNT, MIN_LANE_COUNT, SimulationConfig } from './SimulationConfig';
+import { BoardAction } from './SimulationTypes';
+import { validatePatternLibrary } from './SpawnPatterns';
+import { isDifficultyId } from './Difficulty';
+
+// Bump whenever the replay format or the simulation rules change in a way that breaks old replays
+export const REPLAY_VERSION = 12;
+
+// Actions that can appear in a replay log
+const REPLAY_ACTIONS: BoardAction[] = ['left', 'right', 'jump', 'duck', 'revive'];
+
+/**
+ * A board action applied right before the given simulation step
+ */
+export interface ReplayInput {
+  tick: number;
+  action: BoardAction;
+}
+
+/**
+ * Everything needed to play a run back exactly: the seed, the tuning and the input log
+ */
+export interface ReplayData {
+  version: number;
+  seed: number;
+  config: SimulationConfig;
+  fixedStep: number;    // Simulation step length the run was recorded with (seconds)
+  inputs: ReplayInput[];
+  ticks: number;        // Length of the run in steps
+  distance: number;
+  score: number;        // Final score (distance, obstacles, crystals and bonus)
+  recordedAt: string;   // ISO timestamp
+}
+
+/**
+ * Serialize a replay to JSON
+ */
+export function serializeReplay(replay: ReplayData): string {
+  return JSON.stringify(replay);
+}
+
+/**
+ * Parse a replay from JSON
+ * @returns The replay, or null if the JSON isn't a replay this version of the game can play
+ */
+export function parseReplay(json: string): ReplayData | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  
+  if (!data || typeof data !== 'object') return null;
+  const replay = data as Partial<ReplayData>;
+  
+  // Replays recorded under different rules would desync, so only the current version is accepted
+  if (replay.version !== REPLAY_VERSION) return null;
+  
+  if (typeof replay.seed !== 'number' || typeof replay.fixedStep !== 'number' ||
+      typeof replay.ticks !== 'number' || typeof replay.distance !== 'number' ||
+      typeof replay.score !== 'number' || typeof replay.recordedAt !== 'string' ||
+      !replay.config || typeof replay.config !== 'object' || !Array.isArray(replay.inputs)) {
+    return null;
+  }
+  
+  // The game only steps at its own rate, and a run played back at another step would desync
+  if (replay.fixedStep !== FIXED_STEP) return null;
+  
+  // Only track layouts the game can show
+  const laneCount = replay.config.laneCount;
+  if (typeof laneCount !== 'number' || laneCount < MIN_LANE_COUNT || laneCount > MAX_LANE_COUNT) return null;
+  
+  // Replays are kept and raced per difficulty preset
+  if (!isDifficultyId(replay.config.difficulty)) return null;
+  
+  // The replay carries the patterns it was recorded with
+  if (validatePatternLibrary(replay.config.patterns).length > 0) return null;
+  
+  const validInputs = replay.inputs.every(input =>
+    input && typeof input.tick === 'number' && REPLAY_ACTIONS.includes(input.action)
+  );
+  if (!validInputs) return null;
+  
+  return replay as ReplayData;
+}
@@ -0,0 +1,42 @@
+import { BoardAction } from './SimulationTypes';
+import { ReplayData } from './Replay';
+
+/**
+ * Feeds a recorded input log back into a simulation, step by step
+ */
+export class ReplayPlayer {
+  private replay: ReplayData;
+  private nextInput: number = 0; // Index of the next input to hand out
+  
+  constructor(replay: ReplayData) {
+    this.replay = replay;
+  }
+  
+  /**
+   * Get the actions to apply right before the given step
+   * Ticks must be requested in increasing order
+   */
+  public getActions(tick: number): BoardAction[] {
+    const inputs = this.replay.inputs;
+    const actions: BoardAction[] = [];
+    
+    // Skip anything we've already passed (e.g. if a step was missed)
+    while (this.nextInput < inputs.length && inputs[this.nextInput].tick < tick) {
+      this.nextInput++;
+    }
+    
+    while (this.nextInput < inputs.length && inputs[this.nextInput].tick === tick) {
+      actions.push(inputs[this.nextInput].action);
+      this.nextInput++;
+    }
+    
+    return actions;
+  }
+  
+  /**
+   * Check if an action is recorded for the given step, without handing it out
+   */
+  public hasAction(tick: number, action: BoardAction): boolean {
+    return this.replay.inputs.some(input => input.tick === tick && input.action === action);
+  }
+}
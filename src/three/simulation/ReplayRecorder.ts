@@ -0,0 +1,60 @@
+import { FIXED_STEP, SimulationConfig } from './SimulationConfig';
+import { BoardAction } from './SimulationTypes';
+import { REPLAY_VERSION, ReplayData, ReplayInput } from './Replay';
+
+/**
+ * Records the input log of a run so it can be played back later
+ */
+export class ReplayRecorder {
+  private seed: number = 0;
+  private config: SimulationConfig | null = null;
+  private fixedStep: number = FIXED_STEP;
+  private inputs: ReplayInput[] = [];
+  
+  /**
+   * Start recording a new run
+   * @param seed Seed the run was started with
+   * @param config Tuning the run was started with
+   * @param fixedStep Simulation step length in seconds
+   */
+  public start(seed: number, config: SimulationConfig, fixedStep: number): void {
+    this.seed = seed;
+    this.config = config;
+    this.fixedStep = fixedStep;
+    this.inputs = [];
+  }
+  
+  /**
+   * Record an action that took effect right before the given step
+   */
+  public record(tick: number, action: BoardAction): void {
+    this.inputs.push({ tick, action });
+  }
+  
+  /**
+   * Finish the recording
+   * @param ticks Length of the run in steps
+   * @param distance Distance reached
+   * @param score Final score
+   * @returns The replay, or null if nothing was being recorded
+   */
+  public finish(ticks: number, distance: number, score: number): ReplayData | null {
+    if (!this.config) return null;
+    
+    const replay: ReplayData = {
+      version: REPLAY_VERSION,
+      seed: this.seed,
+      config: this.config,
+      fixedStep: this.fixedStep,
+      inputs: this.inputs,
+      ticks,
+      distance,
+      score,
+      recordedAt: new Date().toISOString(),
+    };
+    
+    this.config = null;
+    this.inputs = [];
+    return replay;
+  }
+}
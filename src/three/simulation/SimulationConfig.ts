@@ -0,0 +1,216 @@
+import { DifficultyId, PowerUpType } from './SimulationTypes';
+import { PatternLibrary, loadPatternLibrary } from './SpawnPatterns';
+import spawnPatterns from './patterns/spawnPatterns.json';
+
+// Supported lane counts - the camera and track visuals are sized for up to 5 lanes
+export const MIN_LANE_COUNT = 3;
+export const MAX_LANE_COUNT = 5;
+
+// Step the game runs the simulation at, whatever the display's refresh rate (seconds)
+export const FIXED_STEP = 1 / 60;
+
+/**
+ * Tuning values for the game simulation
+ */
+export interface SimulationConfig {
+  // Track layout
+  laneCount: number;        // Between MIN_LANE_COUNT and MAX_LANE_COUNT
+  laneWidth: number;
+  boardZ: number;           // Fixed z position of the board relative to the camera
+  obstacleSpawnZ: number;
+  crystalSpawnZ: number;
+  powerUpSpawnZ: number;
+  despawnZ: number;         // Entities past this z are behind the player
+  
+  // Difficulty preset the speed curve and spawn timing come from
+  difficulty: DifficultyId;
+  
+  // Speed curve
+  baseSpeed: number;
+  maxAdditionalSpeed: number;
+  accelerationFactor: number; // Distance per unit of linear speed gain
+  exponentialScale: number;
+  exponentialPower: number;
+  
+  // Spawn timing (seconds)
+  firstObstacleTime: number;
+  firstCrystalTime: number;
+  firstPowerUpTime: number;
+  minObstacleSpacing: number;
+  maxObstacleSpacing: number;
+  minCrystalSpacing: number;
+  maxCrystalSpacing: number;
+  spacingRampDistance: number;     // Obstacle and crystal spacing shrinks by up to a second (two for max obstacle spacing) over this distance...
+  minObstacleSpacingFloor: number; // ...but never below these floors
+  maxObstacleSpacingFloor: number;
+  minCrystalSpacingFloor: number;
+  maxCrystalSpacingFloor: number;
+  minPowerUpSpacing: number;
+  maxPowerUpSpacing: number;
+  
+  // Obstacle and crystal patterns, picked by distance band
+  patterns: PatternLibrary;
+  reactionTime: number;     // Time the spawner leaves the player to react before a lane change (seconds)
+  slideStartZ: number;      // Sliding walls start moving at this z...
+  slideEndZ: number;        // ...and are in their new lane by this z (must be ahead of the board)
+  laserOnTime: number;      // Laser gates stay lit this long...
+  laserOffTime: number;     // ...then stay dark this long (seconds)
+  musicBpm: number | null;  // When set, laser gates blink on the beat instead (lit for one beat, dark for the next)
+  musicFirstBeat: number;   // Time of the music's first beat (seconds) - the track starts with the run...
+  musicLength: number;      // ...and loops after this long (seconds, 0 = never loops)
+  beatSync: boolean;        // Spawn obstacle and crystal patterns so they reach the board on a beat (needs musicBpm)
+  
+  // Entity limits (match the renderer's object pools)
+  maxObstacles: number;
+  maxCrystals: number;
+  maxPowerUps: number;
+  
+  // Board movement
+  lateralSpeed: number;
+  moveCooldown: number;
+  jumpVelocity: number;
+  gravity: number;
+  standingHoverHeight: number;
+  duckingHoverHeight: number;
+  duckDuration: number;
+  duckTransitionSpeed: number;
+  
+  // Power-ups
+  powerUpDurations: Record<PowerUpType, number>;
+  slowMotionFactor: number;
+  magnetRange: number;
+  magnetPullSpeed: number;
+  
+  // Scoring
+  obstaclePoints: number;
+  crystalPoints: number;
+  
+  // Near misses and combo
+  nearMissMargin: number;     // Passing a wall with less than this much room to the side is a near miss
+  lateDodgeTime: number;      // Leaving a wall's lane less than this long before it arrives is a near miss (seconds)
+  nearMissPoints: number;
+  comboStep: number;          // Score multiplier gained per combo level (each near miss or crystal adds a level)
+  maxComboMultiplier: number;
+  comboDecayTime: number;     // The combo drops a level after this long without a near miss or crystal (seconds)
+  
+  // Revive after a crash (once per run)
+  reviveCost: number;           // Crystals spent on a revive
+  reviveClearDistance: number;  // Obstacles this close ahead of the board are cleared away
+  reviveInvulnerability: number; // Time the board can't be hit after a revive (seconds)
+  
+  // Adaptive difficulty - eases the speed ramp and obstacle density for a struggling player (see AdaptiveDifficulty)
+  adaptiveDifficulty: boolean;
+  startingAssist: number;       // Assist the run starts with (0-1), worked out from where recent runs ended
+  assistTargetDistance: number; // Recent runs ending short of this distance start the next one with more assist
+  assistSpeedRelief: number;    // Full assist takes this fraction off the speed gained along the run
+  assistSpacing: number;        // Full assist adds this much time between obstacle patterns (seconds)
+  assistChangeRate: number;     // Fastest the assist moves towards its target (per second)
+  comfortableDodgeTime: number; // Leaving a lane with less time than this before a wall arrives is a late dodge (seconds)
+  nearMissAssist: number;       // Assist added by each near miss...
+  lateDodgeAssist: number;      // ...by the latest possible dodge (less the earlier it was)...
+  cleanPassAssist: number;      // ...and taken off by each obstacle passed
+}
+
+/**
+ * Default tuning used for normal runs
+ */
+export const DEFAULT_SIMULATION_CONFIG: SimulationConfig = {
+  laneCount: 3,
+  laneWidth: 2.5,
+  boardZ: 5,
+  obstacleSpawnZ: -140, // Far enough away to be invisible initially
+  crystalSpawnZ: -130,
+  powerUpSpawnZ: -135,
+  despawnZ: 10,
+  
+  difficulty: 'normal',
+  
+  baseSpeed: 16,
+  maxAdditionalSpeed: 50,
+  accelerationFactor: 100,
+  exponentialScale: 5,
+  exponentialPower: 1.5,
+  
+  firstObstacleTime: 4.0, // Give the player time to get ready
+  firstCrystalTime: 2.0,
+  firstPowerUpTime: 10.0,
+  minObstacleSpacing: 3.0,
+  maxObstacleSpacing: 6.0,
+  minCrystalSpacing: 2.0,
+  maxCrystalSpacing: 4.0,
+  spacingRampDistance: 1000,
+  minObstacleSpacingFloor: 1.5,
+  maxObstacleSpacingFloor: 3.0,
+  minCrystalSpacingFloor: 1.0,
+  maxCrystalSpacingFloor: 2.0,
+  minPowerUpSpacing: 12.0,
+  maxPowerUpSpacing: 20.0,
+  
+  patterns: loadPatternLibrary(spawnPatterns),
+  reactionTime: 0.15,
+  slideStartZ: -60,
+  slideEndZ: -25,
+  laserOnTime: 0.6,
+  laserOffTime: 0.6,
+  musicBpm: null,
+  musicFirstBeat: 0,
+  musicLength: 0,
+  beatSync: false,
+  
+  maxObstacles: 15,
+  maxCrystals: 8,
+  maxPowerUps: 3,
+  
+  lateralSpeed: 12,
+  moveCooldown: 0.2,
+  jumpVelocity: 9,
+  gravity: 30,
+  standingHoverHeight: 0.8,
+  duckingHoverHeight: 0.3,
+  duckDuration: 0.7,
+  duckTransitionSpeed: 6,
+  
+  powerUpDurations: {
+    shield: 10,
+    magnet: 8,
+    multiplier: 10,
+    slowMotion: 5,
+  },
+  slowMotionFactor: 0.5,
+  magnetRange: 40,
+  magnetPullSpeed: 10,
+  
+  obstaclePoints: 10,
+  crystalPoints: 50,
+  
+  nearMissMargin: 0.5,
+  lateDodgeTime: 0.3,
+  nearMissPoints: 25,
+  comboStep: 0.25,
+  maxComboMultiplier: 3,
+  comboDecayTime: 2.5,
+  
+  reviveCost: 10,
+  reviveClearDistance: 60,
+  reviveInvulnerability: 2,
+  
+  adaptiveDifficulty: false,
+  startingAssist: 0,
+  assistTargetDistance: 1000,
+  assistSpeedRelief: 0.6,
+  assistSpacing: 1.5,
+  assistChangeRate: 0.05,
+  comfortableDodgeTime: 0.6,
+  nearMissAssist: 0.06,
+  lateDodgeAssist: 0.08,
+  cleanPassAssist: 0.015,
+};
+
+/**
+ * Get the lateral position of every lane, left to right, centered on the track
+ * Shared by the simulation and every view so lane positions are only defined in one place
+ */
+export function getLanePositions(layout: Pick<SimulationConfig, 'laneCount' | 'laneWidth'>): number[] {
+  const center = (layout.laneCount - 1) / 2;
+  return Array.from({ length: layout.laneCount }, (_, lane) => (lane - center) * layout.laneWidth);
+}
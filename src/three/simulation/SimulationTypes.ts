@@ -0,0 +1,113 @@
+/**
+ * Plain data types shared by the game simulation and the renderer
+ * Nothing in here may depend on Three.js or the DOM so the simulation can run under Node
+ */
+
+// Type of obstacle
+export enum ObstacleType {
+  WALL,        // Regular wall in one lane
+  DOUBLE_WALL, // Two walls forcing player to use a specific lane
+  LOW_BARRIER, // Knee-high barrier in one lane that can be jumped over
+  OVERHEAD_BEAM, // Beam across all lanes that can only be passed by ducking
+  SLIDING_WALL, // Wall that slides into another lane as it approaches
+  LASER_GATE    // Gate in one lane that blinks between a harmless and a lethal phase
+}
+
+// Display name of each obstacle type
+export const OBSTACLE_NAMES: Record<ObstacleType, string> = {
+  [ObstacleType.WALL]: 'Wall',
+  [ObstacleType.DOUBLE_WALL]: 'Double Wall',
+  [ObstacleType.LOW_BARRIER]: 'Low Barrier',
+  [ObstacleType.OVERHEAD_BEAM]: 'Overhead Beam',
+  [ObstacleType.SLIDING_WALL]: 'Sliding Wall',
+  [ObstacleType.LASER_GATE]: 'Laser Gate',
+};
+
+// Difficulty presets a run can be played on (see Difficulty.ts)
+export type DifficultyId = 'easy' | 'normal' | 'hard' | 'insane';
+
+// Power-up types
+export type PowerUpType = 'shield' | 'magnet' | 'multiplier' | 'slowMotion';
+
+// Remaining time (in seconds) of each active power-up effect
+export type ActivePowerUps = Partial<Record<PowerUpType, number>>;
+
+// Board actions that can be triggered by player input (a revive is only accepted right after a crash)
+export type BoardAction = 'left' | 'right' | 'jump' | 'duck' | 'revive';
+
+/**
+ * State of the player's hoverboard
+ */
+export interface BoardState {
+  lane: number;            // Lane the board is in (or moving into)
+  x: number;               // Lateral position
+  targetX: number;         // Lateral position of the target lane
+  previousX: number;       // Lateral position at the previous step (for interpolation)
+  hoverHeight: number;     // Current hover height (lowered while ducking)
+  jumpHeight: number;      // Height above the hover height while jumping
+  previousHeight: number;  // Total height at the previous step (for interpolation)
+  verticalVelocity: number;
+  airborne: boolean;
+  duckTimer: number;       // Remaining time in the duck
+  moveCooldown: number;    // Time until the next lane change is allowed
+}
+
+/**
+ * Lateral slide of a sliding wall, scheduled when it spawns
+ */
+export interface ObstacleSlide {
+  fromLane: number;
+  toLane: number;
+  startZ: number; // Z position at which the wall starts moving
+  endZ: number;   // Z position at which the wall has arrived in its new lane
+}
+
+/**
+ * An obstacle on the track
+ */
+export interface ObstacleEntity {
+  id: number;
+  type: ObstacleType;
+  lane: number;          // Lane the obstacle is (mostly) in
+  x: number;
+  previousX: number;     // Lateral position at the previous step (for interpolation)
+  z: number;
+  previousZ: number;
+  slide?: ObstacleSlide; // Only set for sliding walls
+  phase?: number;        // Laser gates: offset into the blink cycle (0-1)
+  lit?: boolean;         // Laser gates: whether the gate is in its lethal phase
+}
+
+/**
+ * A collectible crystal on the track
+ */
+export interface CrystalEntity {
+  id: number;
+  lane: number;
+  x: number;
+  z: number;
+  previousZ: number;
+}
+
+/**
+ * A collectible power-up on the track
+ */
+export interface PowerUpEntity {
+  id: number;
+  type: PowerUpType;
+  lane: number;
+  x: number;
+  z: number;
+  previousZ: number;
+}
+
+/**
+ * Something noteworthy that happened during a simulation step
+ */
+export type SimulationEvent =
+  | { type: 'obstaclePassed'; obstacle: ObstacleEntity }
+  | { type: 'crystalCollected'; crystal: CrystalEntity }
+  | { type: 'powerUpCollected'; powerUp: PowerUpEntity }
+  | { type: 'nearMiss'; obstacle: ObstacleEntity; late: boolean } // Late: the board left the obstacle's lane just in time
+  | { type: 'shieldAbsorbed'; obstacle: ObstacleEntity }
+  | { type: 'collision'; obstacle: ObstacleEntity };
@@ -0,0 +1,243 @@
+import { SeededRandom } from '../utils/SeededRandom';
+import { ObstacleType } from './SimulationTypes';
+
+// Bump whenever the pattern format changes (see patterns/spawnPatterns.schema.json)
+export const PATTERN_LIBRARY_VERSION = 1;
+
+// Timer a pattern spawns on
+export type PatternCategory = 'obstacle' | 'crystal';
+
+// Obstacle type names used in pattern files
+export type PatternObstacleType = 'wall' | 'doubleWall' | 'lowBarrier' | 'overheadBeam' | 'slidingWall' | 'laserGate';
+
+// Simulation obstacle type for each pattern obstacle name
+export const PATTERN_OBSTACLE_TYPES: Record<PatternObstacleType, ObstacleType> = {
+  wall: ObstacleType.WALL,
+  doubleWall: ObstacleType.DOUBLE_WALL,
+  lowBarrier: ObstacleType.LOW_BARRIER,
+  overheadBeam: ObstacleType.OVERHEAD_BEAM,
+  slidingWall: ObstacleType.SLIDING_WALL,
+  laserGate: ObstacleType.LASER_GATE,
+};
+
+const PATTERN_CATEGORIES: PatternCategory[] = ['obstacle', 'crystal'];
+
+/**
+ * An obstacle placed by a pattern row
+ */
+export interface PatternObstacle {
+  type: PatternObstacleType;
+  lane?: number; // Relative lane (the open lane for a double wall, ignored by overhead beams)
+  toLane?: number; // Relative lane a sliding wall slides into
+  phase?: number;  // Offset into a laser gate's blink cycle (0-1)
+}
+
+/**
+ * One row of a pattern
+ */
+export interface PatternRow {
+  z: number;              // Distance behind the front of the pattern
+  obstacles?: PatternObstacle[];
+  crystals?: number[];    // Relative lanes to put a crystal in
+}
+
+/**
+ * A multi-row sequence of obstacles and crystals
+ */
+export interface SpawnPattern {
+  name: string;
+  category: PatternCategory;
+  weights: Record<string, number>; // Selection weight per band name, carried forward to later bands
+  rows: PatternRow[];
+}
+
+/**
+ * Distance from which a band of patterns applies
+ */
+export interface DistanceBand {
+  name: string;
+  minDistance: number;
+}
+
+/**
+ * Every pattern the simulation can spawn, grouped into distance bands
+ */
+export interface PatternLibrary {
+  version: number;
+  bands: DistanceBand[];
+  patterns: SpawnPattern[];
+}
+
+const isLane = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+/**
+ * Check a pattern library against the pattern format
+ * @returns A list of problems, empty if the library is valid
+ */
+export function validatePatternLibrary(data: unknown): string[] {
+  if (!data || typeof data !== 'object') return ['Pattern library must be an object'];
+  const library = data as Partial<PatternLibrary>;
+  const errors: string[] = [];
+  
+  if (library.version !== PATTERN_LIBRARY_VERSION) {
+    errors.push(`Unsupported pattern library version ${library.version}`);
+  }
+  
+  // Bands must be named and in increasing distance order
+  const bandNames = new Set<string>();
+  if (!Array.isArray(library.bands) || library.bands.length === 0) {
+    errors.push('Pattern library needs at least one distance band');
+  } else {
+    library.bands.forEach((band, index) => {
+      if (!band || typeof band.name !== 'string' || typeof band.minDistance !== 'number') {
+        errors.push(`Band ${index} needs a name and a minDistance`);
+        return;
+      }
+      if (index > 0 && band.minDistance <= library.bands![index - 1].minDistance) {
+        errors.push(`Band "${band.name}" must start further than the band before it`);
+      }
+      bandNames.add(band.name);
+    });
+  }
+  
+  if (!Array.isArray(library.patterns) || library.patterns.length === 0) {
+    errors.push('Pattern library needs at least one pattern');
+    return errors;
+  }
+  
+  library.patterns.forEach((pattern, index) => {
+    const label = pattern && typeof pattern.name === 'string' ? `Pattern "${pattern.name}"` : `Pattern ${index}`;
+    if (!pattern || typeof pattern.name !== 'string') {
+      errors.push(`${label} needs a name`);
+      return;
+    }
+    if (!PATTERN_CATEGORIES.includes(pattern.category)) {
+      errors.push(`${label} has an unknown category "${pattern.category}"`);
+    }
+    
+    // Weights may only refer to known bands
+    if (!pattern.weights || typeof pattern.weights !== 'object') {
+      errors.push(`${label} needs weights`);
+    } else {
+      for (const [band, weight] of Object.entries(pattern.weights)) {
+        if (!bandNames.has(band)) errors.push(`${label} has a weight for unknown band "${band}"`);
+        if (typeof weight !== 'number' || weight < 0) errors.push(`${label} has an invalid weight for band "${band}"`);
+      }
+    }
+    
+    if (!Array.isArray(pattern.rows) || pattern.rows.length === 0) {
+      errors.push(`${label} needs at least one row`);
+      return;
+    }
+    
+    pattern.rows.forEach((row, rowIndex) => {
+      if (!row || typeof row.z !== 'number' || row.z < 0) {
+        errors.push(`${label} row ${rowIndex} needs a z of at least 0`);
+        return;
+      }
+      for (const obstacle of row.obstacles ?? []) {
+        if (!obstacle || !(obstacle.type in PATTERN_OBSTACLE_TYPES)) {
+          errors.push(`${label} row ${rowIndex} has an unknown obstacle type`);
+        } else if (obstacle.type !== 'overheadBeam' && !isLane(obstacle.lane)) {
+          errors.push(`${label} row ${rowIndex} has a ${obstacle.type} without a valid lane`);
+        } else if (obstacle.type === 'slidingWall' && (!isLane(obstacle.toLane) || obstacle.toLane === obstacle.lane)) {
+          errors.push(`${label} row ${rowIndex} has a slidingWall without a different toLane`);
+        } else if (obstacle.phase !== undefined && !(typeof obstacle.phase === 'number' && obstacle.phase >= 0 && obstacle.phase < 1)) {
+          errors.push(`${label} row ${rowIndex} has a laser phase outside 0-1`);
+        }
+      }
+      if (row.crystals !== undefined && !(Array.isArray(row.crystals) && row.crystals.every(isLane))) {
+        errors.push(`${label} row ${rowIndex} has invalid crystal lanes`);
+      }
+    });
+  });
+  
+  return errors;
+}
+
+/**
+ * Load a pattern library, e.g. from an imported JSON file
+ * @throws If the library doesn't match the pattern format
+ */
+export function loadPatternLibrary(data: unknown): PatternLibrary {
+  const errors = validatePatternLibrary(data);
+  if (errors.length > 0) {
+    throw new Error(`Invalid spawn pattern library:\n${errors.join('\n')}`);
+  }
+  return data as PatternLibrary;
+}
+
+/**
+ * Get the index of the band a distance falls in
+ */
+export function getBandIndex(library: PatternLibrary, distance: number): number {
+  let bandIndex = 0;
+  library.bands.forEach((band, index) => {
+    if (distance >= band.minDistance) bandIndex = index;
+  });
+  return bandIndex;
+}
+
+/**
+ * Get a pattern's weight in a band - the last weight set at or before that band
+ */
+export function getPatternWeight(library: PatternLibrary, pattern: SpawnPattern, bandIndex: number): number {
+  for (let index = bandIndex; index >= 0; index--) {
+    const weight = pattern.weights[library.bands[index].name];
+    if (weight !== undefined) return weight;
+  }
+  return 0;
+}
+
+/**
+ * Get the number of lanes a pattern spans
+ */
+export function getPatternLaneSpan(pattern: SpawnPattern): number {
+  let maxLane = 0;
+  for (const row of pattern.rows) {
+    for (const obstacle of row.obstacles ?? []) {
+      if (obstacle.type !== 'overheadBeam') maxLane = Math.max(maxLane, obstacle.lane ?? 0, obstacle.toLane ?? 0);
+    }
+    for (const lane of row.crystals ?? []) {
+      maxLane = Math.max(maxLane, lane);
+    }
+  }
+  return maxLane + 1;
+}
+
+/**
+ * Get the distance from the front of a pattern to its last row
+ */
+export function getPatternLength(pattern: SpawnPattern): number {
+  return Math.max(...pattern.rows.map(row => row.z));
+}
+
+/**
+ * Pick a pattern at random, weighted by the band the distance falls in
+ * @param laneCount Lanes on the track - patterns that don't fit are skipped
+ * @returns The pattern, or null if nothing in the category can spawn at this distance
+ */
+export function pickPattern(
+  library: PatternLibrary,
+  category: PatternCategory,
+  distance: number,
+  laneCount: number,
+  rng: SeededRandom
+): SpawnPattern | null {
+  const bandIndex = getBandIndex(library, distance);
+  const candidates = library.patterns
+    .filter(pattern => pattern.category === category && getPatternLaneSpan(pattern) <= laneCount)
+    .map(pattern => ({ pattern, weight: getPatternWeight(library, pattern, bandIndex) }))
+    .filter(candidate => candidate.weight > 0);
+  
+  const totalWeight = candidates.reduce((total, candidate) => total + candidate.weight, 0);
+  if (totalWeight <= 0) return null;
+  
+  let roll = rng.range(0, totalWeight);
+  for (const candidate of candidates) {
+    roll -= candidate.weight;
+    if (roll < 0) return candidate.pattern;
+  }
+  return candidates[candidates.length - 1].pattern;
+}
@@ -0,0 +1,46 @@
+import { GameSimulation } from './GameSimulation';
+import { FIXED_STEP } from './SimulationConfig';
+import { BoardAction, ObstacleType, SimulationEvent } from './SimulationTypes';
+
+// Simulation step the tests run at - the game's own, so recorded replays can be parsed (seconds)
+export const TEST_STEP = FIXED_STEP;
+
+/**
+ * Pick the actions a simple bot would take to get past the obstacles right in front of the board
+ * Good enough to get most runs well past the first few hundred meters - it doesn't look further ahead
+ */
+export function getBotActions(simulation: GameSimulation): BoardAction[] {
+  const board = simulation.getBoard();
+  const actions: BoardAction[] = [];
+  
+  for (const obstacle of simulation.getObstacles()) {
+    const { type, z, lane } = obstacle;
+    if (z > -8 && z < 3 && lane === board.lane &&
+        (type === ObstacleType.WALL || type === ObstacleType.SLIDING_WALL || type === ObstacleType.LASER_GATE)) {
+      actions.push(board.lane === 0 ? 'right' : 'left');
+    }
+    if (z > -9 && z < 3 && type === ObstacleType.DOUBLE_WALL && lane !== board.lane) {
+      actions.push(lane > board.lane ? 'right' : 'left');
+    }
+    if (z > -6 && z < 3 && type === ObstacleType.LOW_BARRIER && lane === board.lane) {
+      actions.push('jump');
+    }
+    if (z > -6 && z < 3 && type === ObstacleType.OVERHEAD_BEAM) {
+      actions.push('duck');
+    }
+  }
+  
+  return actions;
+}
+
+/**
+ * Step a simulation for a while, collecting every event
+ */
+export function stepFor(simulation: GameSimulation, seconds: number): SimulationEvent[] {
+  const events: SimulationEvent[] = [];
+  for (let i = 0; i < Math.round(seconds / TEST_STEP); i++) {
+    simulation.step(TEST_STEP);
+    events.push(...simulation.getEvents());
+  }
+  return events;
+}
@@ -1,8 +1,36 @@
 import { atom } from 'jotai';
 import { getDefaultStore } from 'jotai';
+import { ActivePowerUps, DifficultyId } from '../simulation/SimulationTypes';
+import { ReplayData, parseReplay, serializeReplay } from '../simulation/Replay';
+import { DEFAULT_SIMULATION_CONFIG, MAX_LANE_COUNT, MIN_LANE_COUNT } from '../simulation/SimulationConfig';
+import { BOARD_SKINS, DEFAULT_SKIN_ID } from '../objects/BoardSkins';
+import { MISSIONS } from '../simulation/Missions';
+import { DEFAULT_DIFFICULTY, DIFFICULTY_IDS, isDifficultyId } from '../simulation/Difficulty';
 
 // Game state
-export type GameState = 'idle' | 'playing' | 'gameOver';
+export type GameState = 'idle' | 'playing' | 'paused' | 'reviving' | 'gameOver';
+
+// Stats of a finished run, kept in the run history
+export interface RunRecord {
+  date: string;            // ISO timestamp of when the run ended
+  distance: number;
+  crystals: number;
+  obstaclesPassed: number;
+  score: number;           // Final score
+  maxSpeed: number;
+  duration: number;        // Seconds
+  causeOfDeath: string;    // Name of the obstacle that ended the run
+  difficulty: DifficultyId; // Preset the run was played on
+  laneCount: number;       // Lanes on the track
+  adaptive: boolean;       // Whether adaptive difficulty was easing the run
+  beatSync: boolean;       // Whether obstacles and crystals arrived on the music's beat
+}
+
+// Key of the leaderboard (and best replay) for a difficulty and track layout - each one is ranked on its own
+export const getBoardKey = (difficulty: DifficultyId, laneCount: number) => `${difficulty}-${laneCount}`;
+
+// How many runs the history keeps (oldest runs are dropped first)
+const MAX_RUN_HISTORY = 200;
 
 // Game store interface
 export interface GameStore {
@@ -12,6 +40,42 @@ export interface GameStore {
   highScore: number;
   speed: number;
   crystalCount: number;
+  crystalScore: number;
+  activePowerUps: ActivePowerUps;
+  multiplierBonus: number;
+  nearMisses: number;
+  nearMissScore: number;
+  comboBonus: number;
+}
+
+// Current combo, as shown on the HUD
+export interface ComboState {
+  level: number;
+  multiplier: number;
+  timeLeft: number; // Fraction of the time left until the combo drops a level (0-1)
+}
+
+// Revive on offer after a crash
+export interface ReviveOffer {
+  cost: number;     // Crystals the revive costs
+  timeLeft: number; // Seconds left to take it
+}
+
+// Points behind the final score, shown on the game over screen
+export interface ScoreBreakdown {
+  distance: number;
+  obstacles: number;
+  crystals: number;
+  nearMisses: number;
+  combo: number;       // Extra points from the combo multiplier
+  multiplier: number;  // Extra points from the score multiplier power-up
+}
+
+// Mission the last run moved forward, shown on the game over screen
+export interface MissionUpdate {
+  id: string;
+  progress: number;   // Run progress for missions, the new total for achievements
+  completed: boolean; // Whether the run completed it
 }
 
 // Initial store values
@@ -22,22 +86,90 @@ const initialStore: GameStore = {
   highScore: 0,
   speed: 5,
   crystalCount: 0,
+  crystalScore: 0,
+  activePowerUps: {},
+  multiplierBonus: 0,
+  nearMisses: 0,
+  nearMissScore: 0,
+  comboBonus: 0,
 };
 
+const noCombo: ComboState = { level: 0, multiplier: 1, timeLeft: 0 };
+
 // Store atoms
 export const gameStateAtom = atom<GameState>(initialStore.gameState);
 export const distanceAtom = atom<number>(initialStore.distance);
 export const scoreAtom = atom<number>(initialStore.score);
-export const highScoreAtom = atom<number>(initialStore.highScore);
+// Every finished run, oldest first, persisted in localStorage
+export const runHistoryAtom = atom<RunRecord[]>([]);
+// Difficulty preset picked on the start screen, persisted in localStorage
+export const difficultyAtom = atom<DifficultyId>(DEFAULT_DIFFICULTY);
+// Whether adaptive difficulty eases runs for struggling players, persisted in localStorage (`?adaptive=1` turns it on)
+export const adaptiveAtom = atom<boolean>(false);
+// Whether runs time their obstacles and crystals to the music's beat, persisted in localStorage
+export const beatSyncAtom = atom<boolean>(false);
+// Best final score in the run history on the picked difficulty and track layout
+export const highScoreAtom = atom<number>((get) =>
+  get(runHistoryAtom)
+    .filter(run => run.difficulty === get(difficultyAtom) && run.laneCount === get(laneCountAtom))
+    .reduce((best, run) => Math.max(best, run.score), initialStore.highScore)
+);
 export const speedAtom = atom<number>(initialStore.speed);
 export const crystalCountAtom = atom<number>(initialStore.crystalCount);
+// Points earned from crystals, as priced by the run's tuning
+export const crystalScoreAtom = atom<number>(initialStore.crystalScore);
+export const activePowerUpsAtom = atom<ActivePowerUps>(initialStore.activePowerUps);
+// Extra points earned while the score multiplier is active
+export const multiplierBonusAtom = atom<number>(initialStore.multiplierBonus);
+export const nearMissesAtom = atom<number>(initialStore.nearMisses);
+export const nearMissScoreAtom = atom<number>(initialStore.nearMissScore);
+export const comboBonusAtom = atom<number>(initialStore.comboBonus);
+export const comboAtom = atom<ComboState>(noCombo);
+// Revive on offer while the game is in the 'reviving' state
+export const reviveOfferAtom = atom<ReviveOffer | null>(null);
+// Crystals banked from every run, spent in the shop
+export const walletAtom = atom<number>(0);
+// Ids of the board skins the player has unlocked, and the one on the board
+export const ownedSkinsAtom = atom<string[]>([DEFAULT_SKIN_ID]);
+export const equippedSkinAtom = atom<string>(DEFAULT_SKIN_ID);
+// Saved progress towards each mission (best run for missions, running total for achievements)
+export const missionProgressAtom = atom<Record<string, number>>({});
+// Missions the last run moved forward
+export const missionUpdatesAtom = atom<MissionUpdate[]>([]);
+// Seed forced through the `?seed=` URL parameter (null means a fresh seed every run)
+export const fixedSeedAtom = atom<number | null>(null);
+// Lanes on the track for player runs, set through the `?lanes=` URL parameter (3 to 5) for a wider, harder track
+export const laneCountAtom = atom<number>(DEFAULT_SIMULATION_CONFIG.laneCount);
+// Seed used by the current (or last) run, shown so runs can be reproduced
+export const runSeedAtom = atom<number>(0);
+// Replay of the last run the player finished
+export const lastReplayAtom = atom<ReplayData | null>(null);
+// Replay of the highest scoring run on each difficulty and track layout (by `getBoardKey`), persisted in localStorage
+export const bestReplaysAtom = atom<Record<string, ReplayData>>({});
+// Replay of the highest scoring run on the picked difficulty and track layout
+export const bestReplayAtom = atom<ReplayData | null>((get) =>
+  get(bestReplaysAtom)[getBoardKey(get(difficultyAtom), get(laneCountAtom))] ?? null
+);
+// Replay being watched (null while the player is in control)
+export const activeReplayAtom = atom<ReplayData | null>(null);
+// How far ahead (positive) or behind (negative) of the best run's ghost the player is, null without a ghost
+export const ghostDeltaAtom = atom<number | null>(null);
+
+// Derived atom splitting the final score into where the points came from
+export const scoreBreakdownAtom = atom<ScoreBreakdown>((get) => ({
+  distance: Math.floor(get(distanceAtom)),
+  obstacles: get(scoreAtom),
+  crystals: get(crystalScoreAtom),
+  nearMisses: get(nearMissScoreAtom),
+  combo: Math.floor(get(comboBonusAtom)),
+  multiplier: Math.floor(get(multiplierBonusAtom)),
+}));
 
 // Derived atom for calculating the final score
 export const finalScoreAtom = atom<number>((get) => {
-  const distance = get(distanceAtom);
-  const score = get(scoreAtom);
-  const crystals = get(crystalCountAtom);
-  return Math.floor(distance) + score + (crystals * 50); // Each crystal is worth 50 points
+  const breakdown = get(scoreBreakdownAtom);
+  return breakdown.distance + breakdown.obstacles + breakdown.crystals +
+    breakdown.nearMisses + breakdown.combo + breakdown.multiplier;
 });
 
 // High score atom that persists the highest score
@@ -45,31 +177,278 @@ export const persistentHighScoreAtom = atom<number>(
   (get) => get(highScoreAtom)
 );
 
-// Manually update the high score with this function
-export const updateHighScore = (newScore: number) => {
+// Add a finished run to the history and persist it
+export const recordRun = (run: RunRecord) => {
   const store = getDefaultStore();
-  const currentHighScore = store.get(highScoreAtom);
-  if (newScore > currentHighScore) {
-    store.set(highScoreAtom, newScore);
-    try {
-      localStorage.setItem('vibeRidersHighScore', newScore.toString());
-    } catch (e) {
-      console.error('Failed to save high score to localStorage:', e);
-    }
+  const history = [...store.get(runHistoryAtom), run].slice(-MAX_RUN_HISTORY);
+  store.set(runHistoryAtom, history);
+  try {
+    localStorage.setItem('vibeRidersRunHistory', JSON.stringify(history));
+  } catch (e) {
+    console.error('Failed to save run history to localStorage:', e);
   }
 };
 
-// Load high score from localStorage on initialization
+// Load the run history from localStorage on initialization
 try {
-  const savedHighScore = localStorage.getItem('vibeRidersHighScore');
-  if (savedHighScore) {
-    const score = parseInt(savedHighScore, 10);
+  const savedHistory = localStorage.getItem('vibeRidersRunHistory');
+  if (savedHistory) {
+    const history = JSON.parse(savedHistory);
+    if (Array.isArray(history)) {
+      // Runs from before difficulty presets were played on normal, without adaptive difficulty or beat sync
+      // Runs from before they remembered their lane count were played on the default track
+      const runs = history.map(run => ({
+        ...run,
+        difficulty: isDifficultyId(run.difficulty) ? run.difficulty : 'normal',
+        laneCount: typeof run.laneCount === 'number' ? run.laneCount : DEFAULT_SIMULATION_CONFIG.laneCount,
+        adaptive: run.adaptive === true,
+        beatSync: run.beatSync === true,
+      }));
+      getDefaultStore().set(runHistoryAtom, runs as RunRecord[]);
+    }
+  } else {
+    // Migrate the single high score number kept by older versions into the history
+    const savedHighScore = localStorage.getItem('vibeRidersHighScore');
+    const score = savedHighScore ? parseInt(savedHighScore, 10) : NaN;
     if (!isNaN(score)) {
-      initialStore.highScore = score;
+      recordRun({
+        date: new Date().toISOString(),
+        distance: 0,
+        crystals: 0,
+        obstaclesPassed: 0,
+        score,
+        maxSpeed: 0,
+        duration: 0,
+        causeOfDeath: 'Unknown',
+        difficulty: 'normal',
+        laneCount: DEFAULT_SIMULATION_CONFIG.laneCount,
+        adaptive: false,
+        beatSync: false,
+      });
+    }
+    localStorage.removeItem('vibeRidersHighScore');
+  }
+} catch (e) {
+  console.error('Failed to load run history from localStorage:', e);
+}
+
+// Save the wallet and skins to localStorage
+const saveShop = () => {
+  const store = getDefaultStore();
+  try {
+    localStorage.setItem('vibeRidersShop', JSON.stringify({
+      wallet: store.get(walletAtom),
+      ownedSkins: store.get(ownedSkinsAtom),
+      equippedSkin: store.get(equippedSkinAtom),
+    }));
+  } catch (e) {
+    console.error('Failed to save shop to localStorage:', e);
+  }
+};
+
+// Add the crystals left at the end of a run to the wallet
+export const bankCrystals = (crystals: number) => {
+  if (crystals <= 0) return;
+  const store = getDefaultStore();
+  store.set(walletAtom, store.get(walletAtom) + crystals);
+  saveShop();
+};
+
+// Unlock a board skin with crystals from the wallet and put it on the board
+// Returns whether the skin was bought
+export const buySkin = (id: string) => {
+  const store = getDefaultStore();
+  const skin = BOARD_SKINS.find(candidate => candidate.id === id);
+  const wallet = store.get(walletAtom);
+  if (!skin || store.get(ownedSkinsAtom).includes(id) || wallet < skin.price) return false;
+  
+  store.set(walletAtom, wallet - skin.price);
+  store.set(ownedSkinsAtom, [...store.get(ownedSkinsAtom), id]);
+  store.set(equippedSkinAtom, id);
+  saveShop();
+  return true;
+};
+
+// Put an unlocked board skin on the board
+export const equipSkin = (id: string) => {
+  const store = getDefaultStore();
+  if (!store.get(ownedSkinsAtom).includes(id)) return;
+  store.set(equippedSkinAtom, id);
+  saveShop();
+};
+
+// Load the wallet and skins from localStorage on initialization
+try {
+  const savedShop = localStorage.getItem('vibeRidersShop');
+  if (savedShop) {
+    const shop = JSON.parse(savedShop);
+    const store = getDefaultStore();
+    if (typeof shop.wallet === 'number' && shop.wallet >= 0) {
+      store.set(walletAtom, Math.floor(shop.wallet));
+    }
+    if (Array.isArray(shop.ownedSkins)) {
+      // Forget skins that no longer exist, but always keep the default one
+      const known = shop.ownedSkins.filter((id: unknown) => BOARD_SKINS.some(skin => skin.id === id));
+      store.set(ownedSkinsAtom, [DEFAULT_SKIN_ID, ...known.filter((id: string) => id !== DEFAULT_SKIN_ID)]);
+    }
+    if (store.get(ownedSkinsAtom).includes(shop.equippedSkin)) {
+      store.set(equippedSkinAtom, shop.equippedSkin);
+    }
+  }
+} catch (e) {
+  console.error('Failed to load shop from localStorage:', e);
+}
+
+// Add a finished run's progress to the missions and pay out the rewards of the ones it completed
+export const recordMissions = (runProgress: Record<string, number>) => {
+  const store = getDefaultStore();
+  const saved = { ...store.get(missionProgressAtom) };
+  const updates: MissionUpdate[] = [];
+  let reward = 0;
+  
+  for (const mission of MISSIONS) {
+    const previous = saved[mission.id] ?? 0;
+    const run = runProgress[mission.id] ?? 0;
+    if (previous >= mission.target || run <= 0) continue;
+    
+    // Progress stops at the target, so a completed mission stays completed
+    const progress = Math.min(mission.scope === 'run' ? run : previous + run, mission.target);
+    const completed = progress >= mission.target;
+    saved[mission.id] = Math.max(previous, progress);
+    updates.push({ id: mission.id, progress, completed });
+    if (completed) {
+      reward += mission.reward;
+    }
+  }
+  
+  store.set(missionProgressAtom, saved);
+  store.set(missionUpdatesAtom, updates);
+  bankCrystals(reward);
+  try {
+    localStorage.setItem('vibeRidersMissions', JSON.stringify(saved));
+  } catch (e) {
+    console.error('Failed to save missions to localStorage:', e);
+  }
+};
+
+// Load the mission progress from localStorage on initialization
+try {
+  const savedMissions = localStorage.getItem('vibeRidersMissions');
+  if (savedMissions) {
+    const missions = JSON.parse(savedMissions);
+    if (missions && typeof missions === 'object') {
+      getDefaultStore().set(missionProgressAtom, missions as Record<string, number>);
+    }
+  }
+} catch (e) {
+  console.error('Failed to load missions from localStorage:', e);
+}
+
+// Pick the difficulty preset for the next runs and remember it
+export const setDifficulty = (difficulty: DifficultyId) => {
+  getDefaultStore().set(difficultyAtom, difficulty);
+  try {
+    localStorage.setItem('vibeRidersDifficulty', difficulty);
+  } catch (e) {
+    console.error('Failed to save difficulty to localStorage:', e);
+  }
+};
+
+// Load the picked difficulty from localStorage on initialization
+try {
+  const savedDifficulty = localStorage.getItem('vibeRidersDifficulty');
+  if (isDifficultyId(savedDifficulty)) {
+    getDefaultStore().set(difficultyAtom, savedDifficulty);
+  }
+} catch (e) {
+  console.error('Failed to load difficulty from localStorage:', e);
+}
+
+// Turn adaptive difficulty on or off for the next runs and remember it
+export const setAdaptive = (adaptive: boolean) => {
+  getDefaultStore().set(adaptiveAtom, adaptive);
+  try {
+    localStorage.setItem('vibeRidersAdaptive', String(adaptive));
+  } catch (e) {
+    console.error('Failed to save adaptive difficulty to localStorage:', e);
+  }
+};
+
+// Load adaptive difficulty from localStorage (or the URL, e.g. for a demo kiosk) on initialization
+try {
+  const adaptiveParam = new URLSearchParams(window.location.search).get('adaptive');
+  if (adaptiveParam !== null) {
+    getDefaultStore().set(adaptiveAtom, adaptiveParam !== '0');
+  } else {
+    getDefaultStore().set(adaptiveAtom, localStorage.getItem('vibeRidersAdaptive') === 'true');
+  }
+} catch (e) {
+  console.error('Failed to load adaptive difficulty:', e);
+}
+
+// Turn beat-synced spawning on or off for the next runs and remember it
+export const setBeatSync = (beatSync: boolean) => {
+  getDefaultStore().set(beatSyncAtom, beatSync);
+  try {
+    localStorage.setItem('vibeRidersBeatSync', String(beatSync));
+  } catch (e) {
+    console.error('Failed to save beat sync to localStorage:', e);
+  }
+};
+
+// Load beat sync from localStorage on initialization
+try {
+  getDefaultStore().set(beatSyncAtom, localStorage.getItem('vibeRidersBeatSync') === 'true');
+} catch (e) {
+  console.error('Failed to load beat sync from localStorage:', e);
+}
+
+// Load the best run's replay on each difficulty and track layout from localStorage on initialization
+try {
+  const bestReplays: Record<string, ReplayData> = {};
+  for (const difficulty of DIFFICULTY_IDS) {
+    for (let laneCount = MIN_LANE_COUNT; laneCount <= MAX_LANE_COUNT; laneCount++) {
+      const key = getBoardKey(difficulty, laneCount);
+      const savedReplay = localStorage.getItem(`vibeRidersBestReplay-${key}`);
+      // Replays from an older version of the game can't be played back and are dropped
+      const replay = savedReplay ? parseReplay(savedReplay) : null;
+      if (replay) {
+        bestReplays[key] = replay;
+      }
+    }
+  }
+  getDefaultStore().set(bestReplaysAtom, bestReplays);
+  
+  // The single best replay kept by older versions can't be played back anymore
+  localStorage.removeItem('vibeRidersBestReplay');
+} catch (e) {
+  console.error('Failed to load best replays from localStorage:', e);
+}
+
+// Read a fixed seed from the URL for reproducing a specific run
+try {
+  const seedParam = new URLSearchParams(window.location.search).get('seed');
+  if (seedParam) {
+    const seed = parseInt(seedParam, 10);
+    if (!isNaN(seed)) {
+      getDefaultStore().set(fixedSeedAtom, seed >>> 0);
     }
   }
 } catch (e) {
-  console.error('Failed to load high score from localStorage:', e);
+  console.error('Failed to read seed from URL:', e);
+}
+
+// Read the lane count from the URL for the wider track
+try {
+  const lanesParam = new URLSearchParams(window.location.search).get('lanes');
+  if (lanesParam) {
+    const laneCount = parseInt(lanesParam, 10);
+    if (!isNaN(laneCount)) {
+      getDefaultStore().set(laneCountAtom, Math.min(Math.max(laneCount, MIN_LANE_COUNT), MAX_LANE_COUNT));
+    }
+  }
+} catch (e) {
+  console.error('Failed to read lane count from URL:', e);
 }
 
 // Combined atom for the whole game store
@@ -81,29 +460,33 @@ export const gameStoreAtom = atom<GameStore>(
     highScore: get(highScoreAtom),
     speed: get(speedAtom),
     crystalCount: get(crystalCountAtom),
+    crystalScore: get(crystalScoreAtom),
+    activePowerUps: get(activePowerUpsAtom),
+    multiplierBonus: get(multiplierBonusAtom),
+    nearMisses: get(nearMissesAtom),
+    nearMissScore: get(nearMissScoreAtom),
+    comboBonus: get(comboBonusAtom),
   })
 );
 
 // Function to update the game store
-export const updateGameStore = (update: Partial<GameStore>) => {
+export const updateGameStore = (update: Partial<Omit<GameStore, 'highScore'>>) => {
   const store = getDefaultStore();
   if (update.gameState !== undefined) store.set(gameStateAtom, update.gameState);
   if (update.distance !== undefined) store.set(distanceAtom, update.distance);
   if (update.score !== undefined) store.set(scoreAtom, update.score);
-  if (update.highScore !== undefined) store.set(highScoreAtom, update.highScore);
   if (update.speed !== undefined) store.set(speedAtom, update.speed);
   if (update.crystalCount !== undefined) store.set(crystalCountAtom, update.crystalCount);
+  if (update.crystalScore !== undefined) store.set(crystalScoreAtom, update.crystalScore);
+  if (update.activePowerUps !== undefined) store.set(activePowerUpsAtom, update.activePowerUps);
+  if (update.multiplierBonus !== undefined) store.set(multiplierBonusAtom, update.multiplierBonus);
+  if (update.nearMisses !== undefined) store.set(nearMissesAtom, update.nearMisses);
+  if (update.nearMissScore !== undefined) store.set(nearMissScoreAtom, update.nearMissScore);
+  if (update.comboBonus !== undefined) store.set(comboBonusAtom, update.comboBonus);
 };
 
 // Reset game
 export const resetGame = () => {
-  // Store current score for high score comparison
-  const store = getDefaultStore();
-  const currentScore = store.get(finalScoreAtom);
-  
-  // Update high score if needed
-  updateHighScore(currentScore);
-  
   // Reset game state
   updateGameStore({
     gameState: 'idle',
@@ -111,7 +494,15 @@ export const resetGame = () => {
     score: 0,
     speed: 5,
     crystalCount: 0,
+    crystalScore: 0,
+    activePowerUps: {},
+    multiplierBonus: 0,
+    nearMisses: 0,
+    nearMissScore: 0,
+    comboBonus: 0,
   });
+  getDefaultStore().set(comboAtom, noCombo);
+  getDefaultStore().set(missionUpdatesAtom, []);
 };
 
 // Helper function to start a new game
@@ -121,27 +512,111 @@ export const startGame = () => {
   store.set(distanceAtom, 0);
   store.set(scoreAtom, 0);
   store.set(crystalCountAtom, 0);
+  store.set(crystalScoreAtom, 0);
+  store.set(activePowerUpsAtom, {});
+  store.set(multiplierBonusAtom, 0);
+  store.set(nearMissesAtom, 0);
+  store.set(nearMissScoreAtom, 0);
+  store.set(comboBonusAtom, 0);
+  store.set(comboAtom, noCombo);
+  store.set(missionUpdatesAtom, []);
+};
+
+// Keep the replay of a finished run, and persist it if it's the best run so far on its difficulty and track layout
+export const saveReplay = (replay: ReplayData) => {
+  const store = getDefaultStore();
+  store.set(lastReplayAtom, replay);
+  
+  const key = getBoardKey(replay.config.difficulty, replay.config.laneCount);
+  const bestReplay = store.get(bestReplaysAtom)[key];
+  if (!bestReplay || replay.score > bestReplay.score) {
+    store.set(bestReplaysAtom, { ...store.get(bestReplaysAtom), [key]: replay });
+    try {
+      localStorage.setItem(`vibeRidersBestReplay-${key}`, serializeReplay(replay));
+    } catch (e) {
+      console.error('Failed to save best replay to localStorage:', e);
+    }
+  }
+};
+
+// Helper function to watch a recorded run
+export const watchReplay = (replay: ReplayData) => {
+  const store = getDefaultStore();
+  store.set(activeReplayAtom, replay);
+  startGame();
+};
+
+// Helper function to pause a run in progress
+export const pauseGame = () => {
+  const store = getDefaultStore();
+  if (store.get(gameStateAtom) === 'playing') {
+    store.set(gameStateAtom, 'paused');
+  }
+};
+
+// Helper function to resume a paused run
+export const resumeGame = () => {
+  const store = getDefaultStore();
+  if (store.get(gameStateAtom) === 'paused') {
+    store.set(gameStateAtom, 'playing');
+  }
+};
+
+// Helper function to take the revive on offer after a crash
+export const acceptRevive = () => {
+  const store = getDefaultStore();
+  if (store.get(gameStateAtom) === 'reviving') {
+    store.set(reviveOfferAtom, null);
+    store.set(gameStateAtom, 'playing');
+  }
+};
+
+// Helper function to turn the revive down and end the run
+export const declineRevive = () => {
+  const store = getDefaultStore();
+  if (store.get(gameStateAtom) === 'reviving') {
+    store.set(reviveOfferAtom, null);
+    store.set(gameStateAtom, 'gameOver');
+  }
+};
+
+// Helper function to toggle pause (Escape / P)
+export const togglePause = () => {
+  const store = getDefaultStore();
+  if (store.get(gameStateAtom) === 'paused') {
+    resumeGame();
+  } else {
+    pauseGame();
+  }
 };
 
 // Helper function to handle game over
 export const gameOver = () => {
   const store = getDefaultStore();
-  const currentScore = store.get(finalScoreAtom);
   
-  // Update high score if needed
-  updateHighScore(currentScore);
-  
-  // Set game state to game over
+  // Set game state to game over (the scene records the run in the history)
   store.set(gameStateAtom, 'gameOver');
 };
 
 // Helper function to restart the game
 export const restartGame = () => {
+  // Hand control back to the player
+  getDefaultStore().set(activeReplayAtom, null);
+  getDefaultStore().set(ghostDeltaAtom, null);
+  
   // Reset game state
   updateGameStore({
     gameState: 'idle',
     distance: 0,
     score: 0,
     crystalCount: 0,
+    crystalScore: 0,
+    activePowerUps: {},
+    multiplierBonus: 0,
+    nearMisses: 0,
+    nearMissScore: 0,
+    comboBonus: 0,
   });
+  getDefaultStore().set(comboAtom, noCombo);
+  getDefaultStore().set(missionUpdatesAtom, []);
 }; 
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { ANALYSIS_LENGTH, detectBeatGrid } from './BeatDetection';
+
+const SAMPLE_RATE = 44100;
+
+/**
+ * Synthesize a kick drum on every beat and a hi-hat on every off-beat, over some noise
+ */
+function createTrack(bpm: number, firstBeat: number, seconds: number): Float32Array {
+  const samples = new Float32Array(seconds * SAMPLE_RATE);
+  let seed = 1;
+  const noise = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648 - 0.5;
+  };
+  
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = noise() * 0.05;
+  }
+  
+  const beat = 60 / bpm;
+  for (let time = firstBeat; time < seconds; time += beat) {
+    const kick = Math.round(time * SAMPLE_RATE);
+    for (let i = 0; i < SAMPLE_RATE * 0.15 && kick + i < samples.length; i++) {
+      samples[kick + i] += Math.sin(2 * Math.PI * 55 * i / SAMPLE_RATE) * Math.exp(-i / (SAMPLE_RATE * 0.05));
+    }
+    
+    const hat = Math.round((time + beat / 2) * SAMPLE_RATE);
+    for (let i = 0; i < SAMPLE_RATE * 0.03 && hat + i < samples.length; i++) {
+      samples[hat + i] += noise() * 0.5 * Math.exp(-i / (SAMPLE_RATE * 0.01));
+    }
+  }
+  
+  return samples;
+}
+
+describe('detectBeatGrid', () => {
+  it('finds the tempo and first beat from the start of a track', () => {
+    for (const [bpm, firstBeat] of [[120, 0.3], [95, 0.41], [174, 0.1]]) {
+      const grid = detectBeatGrid(createTrack(bpm, firstBeat, ANALYSIS_LENGTH), SAMPLE_RATE, 180);
+      expect(grid).not.toBeNull();
+      expect(grid!.bpm).toBeCloseTo(bpm, 1);
+      expect(grid!.length).toBe(180);
+      
+      // The first beat may be found a whole number of beats later
+      const beat = 60 / bpm;
+      const offset = (((grid!.firstBeat - firstBeat) % beat) + beat) % beat;
+      expect(Math.min(offset, beat - offset)).toBeLessThan(0.02);
+    }
+  });
+  
+  it('gives up on silent or very short tracks', () => {
+    expect(detectBeatGrid(new Float32Array(SAMPLE_RATE * 10), SAMPLE_RATE, 10)).toBeNull();
+    expect(detectBeatGrid(new Float32Array(SAMPLE_RATE), SAMPLE_RATE, 1)).toBeNull();
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Tempo and beat positions of a music track
+ */
+export interface BeatGrid {
+  bpm: number;
+  firstBeat: number; // Time of the first beat into the track (seconds)
+  length: number;    // Length of the whole track (seconds)
+}
+
+// Samples per analysis frame (about 12 ms at 44.1 kHz)
+const FRAME_SIZE = 512;
+
+// Only the start of the track is analysed - the tempo of a loop-based track doesn't change (seconds)
+export const ANALYSIS_LENGTH = 60;
+
+// Tempo range to look in, and the tempo preferred when a track could be read at half or double speed
+const MIN_BPM = 80;
+const MAX_BPM = 180;
+const PREFERRED_BPM = 120;
+
+// Beat lengths tried around the first estimate (fractions of it either side), and the offsets tried (frames)
+const PERIOD_SEARCH_STEPS = 40;
+const PERIOD_SEARCH_RESOLUTION = 0.0005;
+const OFFSET_SEARCH_RESOLUTION = 0.25;
+
+// Cutoff of the low-pass filter that picks out the kick drum and bass (Hz)
+const LOW_PASS_FREQUENCY = 150;
+
+/**
+ * Detect the tempo and first beat of a track from its decoded samples
+ *
+ * Measures how sharply the low end gets louder from frame to frame (the onsets), finds the
+ * beat length the onsets repeat at most strongly, then the offset that lines the most
+ * onsets up with beats of that length.
+ * @param samples Samples of one channel - only the first `ANALYSIS_LENGTH` seconds are needed
+ * @param sampleRate Sample rate of the samples (Hz)
+ * @param length Length of the whole track (seconds)
+ * @returns The beat grid, or null if the track is silent or too short to find a beat in
+ */
+export function detectBeatGrid(samples: Float32Array, sampleRate: number, length: number): BeatGrid | null {
+  const onsets = getOnsets(samples, sampleRate);
+  const framesPerSecond = sampleRate / FRAME_SIZE;
+  
+  // Beat lengths to try, in frames
+  const minLag = Math.floor(framesPerSecond * 60 / MAX_BPM);
+  const maxLag = Math.ceil(framesPerSecond * 60 / MIN_BPM);
+  if (onsets.length < maxLag * 4) return null;
+  
+  // Autocorrelate the onsets over every beat length, weighted towards the preferred tempo
+  const correlation = new Float32Array(maxLag + 2);
+  for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+    let total = 0;
+    for (let i = 0; i + lag < onsets.length; i++) {
+      total += onsets[i] * onsets[i + lag];
+    }
+    correlation[lag] = total;
+  }
+  
+  let bestLag = 0;
+  let bestScore = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const octaves = Math.log2(framesPerSecond * 60 / lag / PREFERRED_BPM);
+    const score = correlation[lag] * Math.exp(-0.5 * octaves * octaves);
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+  if (bestScore <= 0) return null;
+  
+  // Find the peak between frames by fitting a parabola through the best lag and its neighbours
+  const before = correlation[bestLag - 1];
+  const peak = correlation[bestLag];
+  const after = correlation[bestLag + 1];
+  const curvature = before - 2 * peak + after;
+  const roughPeriod = bestLag + (curvature < 0 ? 0.5 * (before - after) / curvature : 0);
+  
+  // Fine-tune the beat length - over a whole looping track even a tiny error drifts off the beat
+  let best = alignGrid(onsets, roughPeriod);
+  let period = roughPeriod;
+  for (let step = -PERIOD_SEARCH_STEPS; step <= PERIOD_SEARCH_STEPS; step++) {
+    const candidate = roughPeriod * (1 + step * PERIOD_SEARCH_RESOLUTION);
+    const alignment = alignGrid(onsets, candidate);
+    if (alignment.score > best.score) {
+      best = alignment;
+      period = candidate;
+    }
+  }
+  
+  return {
+    bpm: framesPerSecond * 60 / period,
+    firstBeat: best.offset / framesPerSecond,
+    length,
+  };
+}
+
+/**
+ * Slide a grid of beats across the onsets to find where it lines up best
+ * @param onsets Onset strength of each frame
+ * @param period Beat length (frames)
+ * @returns Offset of the first beat (frames) and how strongly the onsets fall on the grid there
+ */
+function alignGrid(onsets: Float32Array, period: number): { offset: number; score: number } {
+  let best = { offset: 0, score: -Infinity };
+  
+  for (let offset = 0; offset < period; offset += OFFSET_SEARCH_RESOLUTION) {
+    let score = 0;
+    for (let frame = offset; frame < onsets.length - 1; frame += period) {
+      // Interpolate between frames
+      const index = Math.floor(frame);
+      const fraction = frame - index;
+      score += onsets[index] * (1 - fraction) + onsets[index + 1] * fraction;
+    }
+    if (score > best.score) {
+      best = { offset, score };
+    }
+  }
+  
+  return best;
+}
+
+/**
+ * Get how much the low end rises in each frame of the start of a track (0 where it falls)
+ */
+function getOnsets(samples: Float32Array, sampleRate: number): Float32Array {
+  const sampleCount = Math.min(samples.length, Math.floor(ANALYSIS_LENGTH * sampleRate));
+  const frameCount = Math.floor(sampleCount / FRAME_SIZE);
+  const onsets = new Float32Array(frameCount);
+  
+  // One-pole low-pass filter
+  const smoothing = 1 - Math.exp(-2 * Math.PI * LOW_PASS_FREQUENCY / sampleRate);
+  let filtered = 0;
+  let previousEnergy = 0;
+  
+  for (let frame = 0; frame < frameCount; frame++) {
+    let energy = 0;
+    for (let i = frame * FRAME_SIZE; i < (frame + 1) * FRAME_SIZE; i++) {
+      filtered += smoothing * (samples[i] - filtered);
+      energy += filtered * filtered;
+    }
+    
+    // Compare loudness on a log scale so quiet and loud passages count alike
+    const logEnergy = Math.log(1 + energy * 1000);
+    onsets[frame] = Math.max(logEnergy - previousEnergy, 0);
+    previousEnergy = logEnergy;
+  }
+  
+  // Remove the average so steady noise doesn't correlate at every lag
+  const mean = onsets.reduce((total, onset) => total + onset, 0) / frameCount;
+  for (let frame = 0; frame < frameCount; frame++) {
+    onsets[frame] -= mean;
+  }
+  
+  return onsets;
+}
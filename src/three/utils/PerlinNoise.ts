@@ -1,3 +1,5 @@
+import { SeededRandom } from './SeededRandom';
+
 /**
  * Simple Perlin noise implementation for procedural generation
  */
@@ -14,9 +16,10 @@ export class PerlinNoise {
       p[i] = i;
     }
     
-    // Shuffle based on seed
+    // Shuffle based on seed (Fisher-Yates driven by a seeded RNG)
+    const rng = new SeededRandom(seed);
     for (let i = 255; i > 0; i--) {
-      const j = Math.floor((seed + i) % (i + 1));
+      const j = rng.int(i + 1);
       [p[i], p[j]] = [p[j], p[i]]; // Swap
     }
     
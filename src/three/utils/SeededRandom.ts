@@ -0,0 +1,73 @@
+/**
+ * Small seedable pseudo-random number generator (mulberry32)
+ * Used for all gameplay randomness so a run can be reproduced from its seed
+ */
+export class SeededRandom {
+  private seed: number;
+  private state: number;
+  
+  constructor(seed: number = SeededRandom.randomSeed()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+  
+  /**
+   * Create a fresh seed from the non-deterministic browser RNG
+   */
+  public static randomSeed(): number {
+    return Math.floor(Math.random() * 0xffffffff) >>> 0;
+  }
+  
+  /**
+   * Get the seed this generator was created with
+   */
+  public getSeed(): number {
+    return this.seed;
+  }
+  
+  /**
+   * Restart the sequence from the original seed
+   */
+  public reset(): void {
+    this.state = this.seed;
+  }
+  
+  /**
+   * Get the next number in [0, 1), a drop-in replacement for Math.random()
+   */
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+  
+  /**
+   * Get a number in [min, max)
+   */
+  public range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+  
+  /**
+   * Get an integer in [0, max)
+   */
+  public int(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+  
+  /**
+   * Return true with the given probability
+   */
+  public chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+  
+  /**
+   * Pick a random element from an array
+   */
+  public pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)];
+  }
+}
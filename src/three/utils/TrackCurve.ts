@@ -0,0 +1,182 @@
+import * as THREE from 'three';
+
+// Wavelengths (in meters of track) of the waves the curves are built from
+const TURN_WAVELENGTHS = [720, 310];
+const HILL_WAVELENGTHS = [540, 230];
+
+/**
+ * Bends the straight track into gentle turns and hills, purely as a visual effect
+ *
+ * The simulation (and everything it collides) stays on a straight track. The view bends
+ * it like a "curved world": a point further ahead of the board is pushed sideways and up
+ * by a cubic of its distance ahead, using the turn and hill at the board's distance along
+ * the track. The board itself is never moved, so what you see next to it is what you hit.
+ */
+export class TrackCurve {
+  // Maximum curvature of turns (1/m) and of hills
+  private maxTurn = 0.0014;
+  private maxHill = 0.0004;
+  private boardZ: number;
+  
+  // Cubic coefficients of the bend: offset = quadratic * ahead^2 + cubic * ahead^3
+  private lateral = { quadratic: 0, cubic: 0 };
+  private vertical = { quadratic: 0, cubic: 0 };
+  private curvature = 0; // Turn curvature at the board (positive turns right)
+  private static offset = new THREE.Vector2(); // Scratch vector for place()
+  
+  // Shared with shaders that bend their vertices the same way (see bendShader)
+  public readonly uniforms = {
+    trackBend: { value: new THREE.Vector4() },
+    trackBoardZ: { value: 0 },
+  };
+  
+  /**
+   * @param boardZ Z position of the board - the track bends away from this point
+   */
+  constructor(boardZ: number) {
+    this.boardZ = boardZ;
+    this.uniforms.trackBoardZ.value = boardZ;
+  }
+  
+  /**
+   * Get the turn curvature at a distance along the track
+   */
+  private getTurn(distance: number): number {
+    return this.maxTurn * this.getRamp(distance) * this.getWave(distance, TURN_WAVELENGTHS, 0);
+  }
+  
+  /**
+   * Get the hill curvature at a distance along the track
+   */
+  private getHill(distance: number): number {
+    return this.maxHill * this.getRamp(distance) * this.getWave(distance, HILL_WAVELENGTHS, 1.7);
+  }
+  
+  /**
+   * Sum of two sine waves in -1..1
+   */
+  private getWave(distance: number, wavelengths: number[], phase: number): number {
+    return 0.6 * Math.sin((distance / wavelengths[0]) * Math.PI * 2 + phase) +
+      0.4 * Math.sin((distance / wavelengths[1]) * Math.PI * 2 + phase * 2.3);
+  }
+  
+  /**
+   * Keep the start of a run straight, then ease into the curves
+   */
+  private getRamp(distance: number): number {
+    const t = THREE.MathUtils.clamp((distance - 50) / 200, 0, 1);
+    return t * t * (3 - 2 * t);
+  }
+  
+  /**
+   * Work out the bend for the board's distance along the track
+   * @param distance Distance the board has travelled
+   */
+  public update(distance: number): void {
+    // Second and third terms of a curve with this curvature (and rate of change of curvature)
+    this.curvature = this.getTurn(distance);
+    const turnChange = (this.getTurn(distance + 1) - this.getTurn(distance - 1)) / 2;
+    this.lateral.quadratic = this.curvature / 2;
+    this.lateral.cubic = turnChange / 6;
+    
+    const hill = this.getHill(distance);
+    const hillChange = (this.getHill(distance + 1) - this.getHill(distance - 1)) / 2;
+    this.vertical.quadratic = hill / 2;
+    this.vertical.cubic = hillChange / 6;
+    
+    this.uniforms.trackBend.value.set(
+      this.lateral.quadratic, this.lateral.cubic,
+      this.vertical.quadratic, this.vertical.cubic
+    );
+  }
+  
+  /**
+   * Straighten the track (e.g. back at the start line)
+   */
+  public reset(): void {
+    this.update(0);
+  }
+  
+  /**
+   * Get how far a point at a z position is pushed sideways (x) and up (y)
+   * @param z Z position on the straight track
+   * @param target Vector to write the offset into
+   */
+  public getOffset(z: number, target: THREE.Vector2): THREE.Vector2 {
+    const ahead = this.boardZ - z;
+    const ahead2 = ahead * ahead;
+    const ahead3 = ahead2 * ahead;
+    return target.set(
+      this.lateral.quadratic * ahead2 + this.lateral.cubic * ahead3,
+      this.vertical.quadratic * ahead2 + this.vertical.cubic * ahead3
+    );
+  }
+  
+  /**
+   * Get the yaw (rotation.y) that lines an object at a z position up with the track
+   */
+  public getYaw(z: number): number {
+    const ahead = this.boardZ - z;
+    return -Math.atan(2 * this.lateral.quadratic * ahead + 3 * this.lateral.cubic * ahead * ahead);
+  }
+  
+  /**
+   * Get the pitch (rotation.x) that lines an object at a z position up with the track
+   */
+  public getPitch(z: number): number {
+    const ahead = this.boardZ - z;
+    return Math.atan(2 * this.vertical.quadratic * ahead + 3 * this.vertical.cubic * ahead * ahead);
+  }
+  
+  /**
+   * Get how hard the track is turning at the board, from -1 (full left) to 1 (full right)
+   */
+  public getTurnAmount(): number {
+    return this.curvature / this.maxTurn;
+  }
+  
+  /**
+   * Place an object at a point on the straight track, bent onto the curve and lined up with it
+   * @param object Object to place
+   * @param x X position on the straight track
+   * @param y Height above the track
+   * @param z Z position on the straight track
+   * @param align Whether to turn the object to face along the track
+   */
+  public place(object: THREE.Object3D, x: number, y: number, z: number, align: boolean = true): void {
+    const offset = this.getOffset(z, TrackCurve.offset);
+    object.position.set(x + offset.x, y + offset.y, z);
+    if (align) {
+      object.rotation.y = this.getYaw(z);
+      object.rotation.x = this.getPitch(z);
+    }
+  }
+  
+  /**
+   * Make a material bend its vertices along the track
+   * The vertices are bent in world space, so the mesh can be rotated or scaled freely
+   */
+  public bendShader(material: THREE.Material): void {
+    material.onBeforeCompile = (shader) => {
+      shader.uniforms.trackBend = this.uniforms.trackBend;
+      shader.uniforms.trackBoardZ = this.uniforms.trackBoardZ;
+      shader.vertexShader = shader.vertexShader
+        .replace(
+          '#include <common>',
+          `#include <common>
+          uniform vec4 trackBend;
+          uniform float trackBoardZ;`
+        )
+        .replace(
+          '#include <project_vertex>',
+          `vec4 bentPosition = modelMatrix * vec4(transformed, 1.0);
+          float ahead = trackBoardZ - bentPosition.z;
+          float ahead2 = ahead * ahead;
+          bentPosition.x += trackBend.x * ahead2 + trackBend.y * ahead2 * ahead;
+          bentPosition.y += trackBend.z * ahead2 + trackBend.w * ahead2 * ahead;
+          vec4 mvPosition = viewMatrix * bentPosition;
+          gl_Position = projectionMatrix * mvPosition;`
+        );
+    };
+  }
+}